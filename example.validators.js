@@ -0,0 +1,429 @@
+// This file was generated by docroutes, do not edit it by hand.
+"use strict";
+
+function joinPath(path, key) {
+    if (typeof key === "number") {
+        return path + "[" + key + "]";
+    }
+    var property = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : "[" + JSON.stringify(key) + "]";
+    if (path === "") {
+        return property;
+    }
+    return property.charAt(0) === "[" ? path + property : path + "." + property;
+}
+
+function isObject(value) {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function coerce(value, coercion) {
+    if (coercion.array !== undefined) {
+        return (Array.isArray(value) ? value : [value]).map(function (item) {
+            return coerce(item, coercion.array);
+        });
+    }
+    if (typeof value !== "string") {
+        return value;
+    }
+    if (coercion.number && value.trim() !== "" && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    if (coercion.boolean && (value === "true" || value === "false")) {
+        return value === "true";
+    }
+    if (coercion.null && value === "null") {
+        return null;
+    }
+    return value;
+}
+
+/**
+ * Validate (and coerce) a group of values taken from strings, e.g. the query parameters. Missing values
+ * are replaced by their default.
+ */
+function validateGroup(values, params, path, errors, caseInsensitive) {
+    var result = {};
+    values = isObject(values) ? values : {};
+    for (var i = 0; i < params.length; i++) {
+        var param = params[i];
+        var value = values[param.name];
+        if (value === undefined && caseInsensitive) {
+            value = values[param.name.toLowerCase()];
+        }
+        var paramPath = joinPath(path, param.name);
+        if (value === undefined && param.default !== undefined) {
+            value = param.default;
+        }
+        if (value === undefined) {
+            if (param.required) {
+                errors.push({ message: "is required", path: paramPath });
+            }
+            continue;
+        }
+        value = coerce(value, param.coercion);
+        param.validate(value, paramPath, errors);
+        result[param.name] = value;
+    }
+    return result;
+}
+
+function formatError(error) {
+    return error.path + ": " + error.message;
+}
+
+function validate_0(value, path, errors) {
+    if (!(typeof value === "string")) {
+        errors.push({ message: "expected string", path: path });
+    }
+}
+
+function validate_ITodoItem(value, path, errors) {
+    if (!isObject(value)) {
+        errors.push({ message: "expected object", path: path });
+        return;
+    }
+    if (value["item"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "item") });
+    } else {
+        validate_0(value["item"], joinPath(path, "item"), errors);
+    }
+    if (value["created"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "created") });
+    } else {
+        validate_2(value["created"], joinPath(path, "created"), errors);
+    }
+    if (value["status"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "status") });
+    } else {
+        validate_TaskStatus(value["status"], joinPath(path, "status"), errors);
+    }
+    if (value["due"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "due") });
+    } else {
+        validate_5(value["due"], joinPath(path, "due"), errors);
+    }
+}
+
+function validate_2(value, path, errors) {
+    if (typeof value !== "string" || isNaN(Date.parse(value))) {
+        errors.push({ message: "expected date string", path: path });
+    }
+}
+
+function validate_TaskStatus(value, path, errors) {
+    if (["open","started","onHold"].indexOf(value) < 0) {
+        errors.push({ message: "expected \"open\" | \"started\" | \"onHold\"", path: path });
+    }
+}
+
+function validate_4(value, path, errors) {
+    if (value !== null) {
+        errors.push({ message: "expected null", path: path });
+    }
+}
+
+function validate_5(value, path, errors) {
+    var validators = [validate_2, validate_4];
+    for (var i = 0; i < validators.length; i++) {
+        var memberErrors = [];
+        validators[i](value, path, memberErrors);
+        if (memberErrors.length === 0) {
+            return;
+        }
+    }
+    errors.push({ message: "expected date string | null", path: path });
+}
+
+function validate_6(value, path, errors) {
+    if (!(typeof value === "number")) {
+        errors.push({ message: "expected number", path: path });
+    }
+}
+
+function validate_7(value, path, errors) {
+    if (value !== undefined) {
+        errors.push({ message: "expected no value", path: path });
+    }
+}
+
+function validate_8(value, path, errors) {
+    if (!(typeof value === "boolean")) {
+        errors.push({ message: "expected boolean", path: path });
+    }
+}
+
+function validate_ITodoItemWithKey(value, path, errors) {
+    if (!isObject(value)) {
+        errors.push({ message: "expected object", path: path });
+        return;
+    }
+    if (value["id"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "id") });
+    } else {
+        validate_6(value["id"], joinPath(path, "id"), errors);
+    }
+    if (value["item"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "item") });
+    } else {
+        validate_0(value["item"], joinPath(path, "item"), errors);
+    }
+    if (value["created"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "created") });
+    } else {
+        validate_2(value["created"], joinPath(path, "created"), errors);
+    }
+    if (value["status"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "status") });
+    } else {
+        validate_TaskStatus(value["status"], joinPath(path, "status"), errors);
+    }
+    if (value["due"] === undefined) {
+        errors.push({ message: "is required", path: joinPath(path, "due") });
+    } else {
+        validate_5(value["due"], joinPath(path, "due"), errors);
+    }
+}
+
+function validate_Partial_ITodoItem(value, path, errors) {
+    if (!isObject(value)) {
+        errors.push({ message: "expected object", path: path });
+        return;
+    }
+    if (value["item"] !== undefined) {
+        validate_0(value["item"], joinPath(path, "item"), errors);
+    }
+    if (value["created"] !== undefined) {
+        validate_2(value["created"], joinPath(path, "created"), errors);
+    }
+    if (value["status"] !== undefined) {
+        validate_TaskStatus(value["status"], joinPath(path, "status"), errors);
+    }
+    if (value["due"] !== undefined) {
+        validate_5(value["due"], joinPath(path, "due"), errors);
+    }
+}
+
+function validate_TodoList(value, path, errors) {
+    if (!Array.isArray(value)) {
+        errors.push({ message: "expected array", path: path });
+        return;
+    }
+    for (var i = 0; i < value.length; i++) {
+        validate_ITodoItem(value[i], joinPath(path, i), errors);
+    }
+}
+
+exports.formatError = formatError;
+
+exports.types = {
+    "ITodoItem": function (value) {
+        var errors = [];
+        validate_ITodoItem(value, "", errors);
+        return errors;
+    },
+    "TaskStatus": function (value) {
+        var errors = [];
+        validate_TaskStatus(value, "", errors);
+        return errors;
+    },
+    "ITodoItemWithKey": function (value) {
+        var errors = [];
+        validate_ITodoItemWithKey(value, "", errors);
+        return errors;
+    },
+    "Partial<ITodoItem>": function (value) {
+        var errors = [];
+        validate_Partial_ITodoItem(value, "", errors);
+        return errors;
+    },
+    "TodoList": function (value) {
+        var errors = [];
+        validate_TodoList(value, "", errors);
+        return errors;
+    }
+};
+
+exports.routers = {
+    "ITodoRoutes": {
+        "createTask": {
+            method: "POST",
+            route: "/todo/create",
+            validateRequest: function (request) {
+            var errors = [];
+            var value = {};
+            request = isObject(request) ? request : {};
+            value.headers = validateGroup(request.headers, [
+                { coercion: {"boolean":false,"null":false,"number":false}, name: "X-Request-Id", required: false, validate: validate_0 },
+            ], "headers", errors, true);
+            validate_0(request.authorization, "authorization", errors);
+            value.authorization = request.authorization;
+            validate_ITodoItem(request.body, "body", errors);
+            value.body = request.body;
+            return { errors: errors, value: value };
+            },
+            validateResponse: function (status, body) {
+            var errors = [];
+            switch (status) {
+                case 201:
+                    validate_6(body, "body", errors);
+                    break;
+                case 202:
+                    validate_7(body, "body", errors);
+                    break;
+                default:
+                    errors.push({ message: "undeclared status code " + status, path: "status" });
+            }
+            return errors;
+            }
+        },
+        "getTaskByID": {
+            method: "GET",
+            route: "/todo/:id",
+            validateRequest: function (request) {
+            var errors = [];
+            var value = {};
+            request = isObject(request) ? request : {};
+            value.params = validateGroup(request.params, [
+                { coercion: {"boolean":false,"null":false,"number":true}, name: "id", required: true, validate: validate_6 },
+            ], "params", errors, false);
+            value.query = validateGroup(request.query, [
+                { coercion: {"boolean":true,"null":false,"number":false}, default: false, name: "ifNotDue", required: false, validate: validate_8 },
+                { coercion: {"boolean":false,"null":false,"number":true}, name: "someSecondParam", required: false, validate: validate_6 },
+            ], "query", errors, false);
+            return { errors: errors, value: value };
+            },
+            validateResponse: function (status, body) {
+            var errors = [];
+            switch (status) {
+                case 200:
+                    validate_ITodoItemWithKey(body, "body", errors);
+                    break;
+                case 404:
+                    validate_7(body, "body", errors);
+                    break;
+                case 417:
+                    validate_7(body, "body", errors);
+                    break;
+                default:
+                    errors.push({ message: "undeclared status code " + status, path: "status" });
+            }
+            return errors;
+            }
+        },
+        "updateTaskByID": {
+            method: "PUT",
+            route: "/todo/:id",
+            validateRequest: function (request) {
+            var errors = [];
+            var value = {};
+            request = isObject(request) ? request : {};
+            value.params = validateGroup(request.params, [
+                { coercion: {"boolean":false,"null":false,"number":true}, name: "id", required: true, validate: validate_6 },
+            ], "params", errors, false);
+            validate_0(request.authorization, "authorization", errors);
+            value.authorization = request.authorization;
+            validate_ITodoItem(request.body, "body", errors);
+            value.body = request.body;
+            return { errors: errors, value: value };
+            },
+            validateResponse: function (status, body) {
+            var errors = [];
+            switch (status) {
+                case 204:
+                    validate_7(body, "body", errors);
+                    break;
+                case 404:
+                    validate_7(body, "body", errors);
+                    break;
+                default:
+                    errors.push({ message: "undeclared status code " + status, path: "status" });
+            }
+            return errors;
+            }
+        },
+        "partiallyUpdateTaskByID": {
+            method: "PATCH",
+            route: "/todo/:id",
+            validateRequest: function (request) {
+            var errors = [];
+            var value = {};
+            request = isObject(request) ? request : {};
+            value.params = validateGroup(request.params, [
+                { coercion: {"boolean":false,"null":false,"number":true}, name: "id", required: true, validate: validate_6 },
+            ], "params", errors, false);
+            validate_0(request.authorization, "authorization", errors);
+            value.authorization = request.authorization;
+            validate_Partial_ITodoItem(request.body, "body", errors);
+            value.body = request.body;
+            return { errors: errors, value: value };
+            },
+            validateResponse: function (status, body) {
+            var errors = [];
+            switch (status) {
+                case 204:
+                    validate_7(body, "body", errors);
+                    break;
+                case 404:
+                    validate_7(body, "body", errors);
+                    break;
+                default:
+                    errors.push({ message: "undeclared status code " + status, path: "status" });
+            }
+            return errors;
+            }
+        },
+        "deleteTaskByID": {
+            method: "DELETE",
+            route: "/todo/:id",
+            validateRequest: function (request) {
+            var errors = [];
+            var value = {};
+            request = isObject(request) ? request : {};
+            value.params = validateGroup(request.params, [
+                { coercion: {"boolean":false,"null":false,"number":true}, name: "id", required: true, validate: validate_6 },
+            ], "params", errors, false);
+            validate_0(request.authorization, "authorization", errors);
+            value.authorization = request.authorization;
+            return { errors: errors, value: value };
+            },
+            validateResponse: function (status, body) {
+            var errors = [];
+            switch (status) {
+                case 204:
+                    validate_7(body, "body", errors);
+                    break;
+                case 401:
+                    validate_7(body, "body", errors);
+                    break;
+                case 404:
+                    validate_7(body, "body", errors);
+                    break;
+                default:
+                    errors.push({ message: "undeclared status code " + status, path: "status" });
+            }
+            return errors;
+            }
+        },
+        "listAllTasks": {
+            method: "GET",
+            route: "/todo/list",
+            validateRequest: function (request) {
+            var errors = [];
+            var value = {};
+            request = isObject(request) ? request : {};
+            return { errors: errors, value: value };
+            },
+            validateResponse: function (status, body) {
+            var errors = [];
+            switch (status) {
+                case 200:
+                    validate_TodoList(body, "body", errors);
+                    break;
+                default:
+                    errors.push({ message: "undeclared status code " + status, path: "status" });
+            }
+            return errors;
+            }
+        }
+    }
+};
@@ -0,0 +1,28 @@
+import Diagnostics from "./Diagnostics";
+
+test("format", () => {
+    expect(Diagnostics.format({
+        column: 5,
+        fileName: "/project/src/routes.ts",
+        line: 12,
+        message: "Unhandled type",
+        path: ["IRoutes", "/todo/:id", "GET"],
+        severity: "error",
+    }, "/project")).toBe("src/routes.ts:12:5 - error: Unhandled type (IRoutes > /todo/:id > GET)");
+    expect(Diagnostics.format({
+        column: 0,
+        fileName: null,
+        line: 0,
+        message: "Something",
+        path: [],
+        severity: "warning",
+    }, "/project")).toBe("docroutes - warning: Something");
+    expect(Diagnostics.format({
+        column: 0,
+        fileName: "/project/src/routes.ts",
+        line: 12,
+        message: "Something",
+        path: [],
+        severity: "error",
+    }, "/project")).toBe("src/routes.ts:12 - error: Something");
+});
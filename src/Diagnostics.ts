@@ -0,0 +1,69 @@
+import * as path from "path";
+import * as ts from "typescript";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface IDiagnostic {
+    severity: DiagnosticSeverity;
+    message: string;
+    fileName: string | null;
+    // 1-based, 0 if the position (or only the column) is unknown
+    line: number;
+    column: number;
+    // router, route, method (and member) the diagnostic belongs to
+    path: string[];
+}
+
+/**
+ * Collects problems found while processing routers. Instead of aborting on the first failure, the bad
+ * item is reported here and skipped.
+ */
+export default class Diagnostics {
+    /**
+     * Format a diagnostic like a compiler would: file:line:col - error: message (Router > /route > GET)
+     */
+    public static format(diagnostic: IDiagnostic, cwd: string): string {
+        let location = "docroutes";
+        if (diagnostic.fileName !== null) {
+            const relative = path.relative(cwd, diagnostic.fileName);
+            location = relative.startsWith("..") ? diagnostic.fileName : relative;
+            if (diagnostic.line > 0) {
+                location += diagnostic.column > 0 ? `:${diagnostic.line}:${diagnostic.column}` : `:${diagnostic.line}`;
+            }
+        }
+        const context = diagnostic.path.length > 0 ? ` (${diagnostic.path.join(" > ")})` : "";
+        return `${location} - ${diagnostic.severity}: ${diagnostic.message}${context}`;
+    }
+
+    private readonly diagnostics: IDiagnostic[] = [];
+
+    public add(severity: DiagnosticSeverity, message: string, node: ts.Node | null, itemPath: string[]): void {
+        const diagnostic: IDiagnostic = {
+            column: 0,
+            fileName: null,
+            line: 0,
+            message,
+            path: itemPath,
+            severity,
+        };
+        if (node !== null) {
+            const sourceFile = node.getSourceFile();
+            diagnostic.fileName = sourceFile.fileName;
+            // synthesized nodes have no position
+            if (node.pos >= 0) {
+                const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+                diagnostic.line = line + 1;
+                diagnostic.column = character + 1;
+            }
+        }
+        this.diagnostics.push(diagnostic);
+    }
+
+    public all(): IDiagnostic[] {
+        return this.diagnostics;
+    }
+
+    public count(severity: DiagnosticSeverity): number {
+        return this.diagnostics.filter((diagnostic) => diagnostic.severity === severity).length;
+    }
+}
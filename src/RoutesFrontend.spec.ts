@@ -0,0 +1,544 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import Diagnostics, { IDiagnostic } from "./Diagnostics";
+import { IRouterFilter, NO_ROUTER_FILTER } from "./filters";
+import { printJsonSchemas } from "./jsonschema";
+import { printMarkdownFull } from "./printer";
+import RoutesFrontend, { DEFAULT_MARKER, IFrontendOptions } from "./RoutesFrontend";
+import { sampleValue } from "./samples";
+import { ISchemaOptions, typeToInlineSchema } from "./schema";
+import { IExportedRouter, Type } from "./types";
+import { printValidators } from "./validators";
+
+const SOURCE = `
+interface ICategory {
+    name: string;
+    children: ICategory[];
+    parent?: ICategory;
+}
+
+/**
+ * #ExportRoute("/")
+ */
+export interface ICategoryRoutes {
+    "/categories": {
+        "GET": {
+            response: {
+                200: ICategory;
+            };
+        };
+    };
+}
+`;
+
+// parse the routers in routes.ts, the modules are written next to it and can be imported from it
+function parseSource(
+    source: string,
+    options: Partial<IFrontendOptions> = {},
+    modules: { [name: string]: string } = {},
+): { routers: IExportedRouter[], diagnostics: IDiagnostic[] } {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "docroutes-"));
+    const fileName = path.join(directory, "routes.ts");
+    const moduleFileNames = Object.keys(modules).map((name) => path.join(directory, name + ".ts"));
+    try {
+        Object.keys(modules).forEach((name, index) => fs.writeFileSync(moduleFileNames[index], modules[name]));
+        fs.writeFileSync(fileName, source);
+        const program = ts.createProgram([fileName], { strict: true });
+        const frontend = new RoutesFrontend(program, {
+            customMethods: [],
+            filter: NO_ROUTER_FILTER,
+            inferParams: false,
+            marker: DEFAULT_MARKER,
+            ...options,
+        });
+        const routers = frontend.processSourceFile(program.getSourceFile(fileName)!);
+        return { diagnostics: frontend.diagnostics.all(), routers };
+    } finally {
+        [fileName, ...moduleFileNames].forEach((file) => fs.unlinkSync(file));
+        fs.rmdirSync(directory);
+    }
+}
+
+function parseRouters(
+    source: string,
+    filter: IRouterFilter = NO_ROUTER_FILTER,
+    modules: { [name: string]: string } = {},
+): IExportedRouter[] {
+    const { diagnostics, routers } = parseSource(source, { filter }, modules);
+    expect(diagnostics).toEqual([]);
+    return routers;
+}
+
+const router = parseRouters(SOURCE)[0];
+const category = router.routes[0].methods[0].responses[0].body as Type;
+
+test("recursive types reference themselves by name", () => {
+    expect("objectMembers" in category && category.objectMembers.children).toEqual({
+        arrayMembers: { reference: "ICategory" },
+        documentation: null,
+        name: null,
+    });
+    expect(printMarkdownFull([router])).toContain("children: ICategory[];");
+});
+
+test("references are usable by all outputs", () => {
+    const options: ISchemaOptions = { dialect: "openapi", refPrefix: "#/components/schemas/", refSuffix: "" };
+    expect(typeToInlineSchema(category, options)).toMatchObject({
+        properties: { children: { items: { $ref: "#/components/schemas/ICategory" } } },
+    });
+    expect(sampleValue(category)).toEqual({ children: [], name: "string" });
+    expect(printValidators([router])).toContain("validate_ICategory(value[i], ");
+});
+
+test("routers can be filtered by name, route base and tag", () => {
+    const source = SOURCE + `
+/**
+ * #ExportRoute("/admin")
+ *
+ * @internal
+ */
+export interface IAdminRoutes {
+    "/users": {
+        "DELETE": {
+            response: {
+                204: undefined;
+            };
+        };
+    };
+}
+`;
+    const names = (filter: Partial<IRouterFilter>) =>
+        parseRouters(source, { ...NO_ROUTER_FILTER, ...filter }).map((r) => r.name);
+    expect(names({})).toEqual(["ICategoryRoutes", "IAdminRoutes"]);
+    expect(names({ excludeTags: ["internal"] })).toEqual(["ICategoryRoutes"]);
+    expect(names({ tags: ["internal"] })).toEqual(["IAdminRoutes"]);
+    expect(names({ routeBases: ["/admin/"] })).toEqual(["IAdminRoutes"]);
+    expect(names({ names: ["ICat*"] })).toEqual(["ICategoryRoutes"]);
+});
+
+test("custom methods must be configured", () => {
+    const source = `
+/**
+ * #ExportRoute("/")
+ */
+export interface IDavRoutes {
+    "/files": {
+        "PROPFIND": {
+            response: {
+                207: string;
+            };
+        };
+        "GET": {
+            response: {
+                200: string;
+            };
+        };
+    };
+}
+`;
+    const allowed = parseSource(source, { customMethods: ["PROPFIND"] });
+    expect(allowed.diagnostics).toEqual([]);
+    expect(allowed.routers[0].routes[0].methods.map(({ customMethod, method }) => ({ customMethod, method })))
+        .toEqual([{ customMethod: true, method: "PROPFIND" }, { customMethod: false, method: "GET" }]);
+
+    const unknown = parseSource(source);
+    expect(unknown.diagnostics.map((diagnostic) => diagnostic.message)).toEqual(["Invalid HTTP method: PROPFIND"]);
+    expect(unknown.routers[0].routes[0].methods.map((method) => method.method)).toEqual(["GET"]);
+});
+
+const GENERIC_SOURCE = `
+interface ITodo {
+    title: string;
+}
+
+interface IPaginated<T> {
+    items: T[];
+    total: number;
+}
+
+interface IPage<T = string, Size = number> {
+    items: T[];
+    size: Size;
+}
+
+interface ICrudRoutes<T> {
+    "/": {
+        "GET": {
+            response: {
+                200: IPaginated<T>;
+            };
+        };
+        "POST": {
+            body: T;
+            response: {
+                201: T;
+            };
+        };
+    };
+}
+
+/**
+ * #ExportRoute("/todo")
+ */
+export type ITodoRoutes = ICrudRoutes<ITodo>;
+
+/**
+ * #ExportRoute("/pages")
+ */
+export interface IPageRoutes {
+    "/": {
+        "GET": {
+            response: {
+                200: IPage;
+                206: IPage<boolean>;
+            };
+        };
+    };
+}
+`;
+
+const [todoRoutes, pageRoutes] = parseRouters(GENERIC_SOURCE);
+
+test("generic types are instantiated with their type arguments", () => {
+    const [list, create] = todoRoutes.routes[0].methods;
+    const todo = { name: "ITodo", objectMembers: { title: { strings: "all" } } };
+    expect(list.responses[0].body).toMatchObject({
+        name: "IPaginated<ITodo>",
+        objectMembers: { items: { arrayMembers: todo, name: null }, total: { numbers: "all" } },
+    });
+    expect(create.body).toMatchObject({ type: todo });
+    expect(create.responses[0].body).toMatchObject(todo);
+});
+
+test("missing type arguments are filled with the defaults", () => {
+    const [defaults, explicit] = pageRoutes.routes[0].methods[0].responses;
+    expect(defaults.body).toMatchObject({
+        name: "IPage",
+        objectMembers: { items: { arrayMembers: { strings: "all" } }, size: { numbers: "all" } },
+    });
+    expect(explicit.body).toMatchObject({
+        name: "IPage<boolean>",
+        objectMembers: { items: { arrayMembers: { booleans: "all" } }, size: { numbers: "all" } },
+    });
+});
+
+test("routers can instantiate generic router interfaces", () => {
+    expect(todoRoutes.name).toBe("ITodoRoutes");
+    expect(todoRoutes.routeBase).toBe("/todo");
+    expect(todoRoutes.routes.map((route) => route.route)).toEqual(["/"]);
+    expect(todoRoutes.routes[0].methods.map((method) => method.method)).toEqual(["GET", "POST"]);
+    expect(parseSource(GENERIC_SOURCE.replace("ICrudRoutes<ITodo>", "ICrudRoutes")).diagnostics).toMatchObject([
+        { message: "Missing type argument for type parameter T", path: ["ITodoRoutes"], severity: "error" },
+    ]);
+});
+
+const TODO_MODULE = `
+export interface ITodo {
+    title: string;
+}
+
+export default interface IUser {
+    name: string;
+}
+
+export namespace Api {
+    export interface IError {
+        message: string;
+    }
+}
+`;
+
+test("types are found through all forms of imports and exports", () => {
+    const modules = {
+        index: `
+export * from "./todo";
+export { ITodo as IRenamed } from "./todo";
+`,
+        todo: TODO_MODULE,
+    };
+    const routers = parseRouters(`
+import * as todo from "./todo";
+import IUser from "./todo";
+import { Api, IRenamed, ITodo } from "./index";
+
+/**
+ * #ExportRoute("/")
+ */
+export interface IRoutes {
+    "/todo": {
+        "POST": {
+            body: IRenamed;
+            response: {
+                200: ITodo;
+                201: todo.ITodo;
+                202: IUser;
+                400: Api.IError;
+                404: todo.Api.IError;
+            };
+        };
+    };
+}
+`, NO_ROUTER_FILTER, modules);
+    const method = routers[0].routes[0].methods[0];
+    const todo = { name: "ITodo", objectMembers: { title: { strings: "all" } } };
+    expect(method.body).toMatchObject({ type: todo });
+    expect(method.responses.map((response) => response.body)).toMatchObject([
+        todo,
+        todo,
+        { name: "IUser", objectMembers: { name: { strings: "all" } } },
+        { name: "Api.IError", objectMembers: { message: { strings: "all" } } },
+        { name: "Api.IError", objectMembers: { message: { strings: "all" } } },
+    ]);
+    // aliases are no new types, so there is only one schema per declaration
+    expect(Object.keys(printJsonSchemas(routers)).sort()).toEqual(["Api.IError.json", "ITodo.json", "IUser.json"]);
+});
+
+test("the members of merged interfaces are combined", () => {
+    const [{ routes }] = parseRouters(`
+interface ITodo {
+    title: string;
+}
+
+interface ITodo {
+    done: boolean;
+}
+
+/**
+ * #ExportRoute("/")
+ */
+export interface IRoutes {
+    "/todo": {
+        "GET": {
+            response: {
+                200: ITodo;
+            };
+        };
+    };
+}
+
+export interface IRoutes {
+    "/todo/count": {
+        "GET": {
+            response: {
+                200: number;
+            };
+        };
+    };
+}
+`);
+    expect(routes.map((route) => route.route)).toEqual(["/todo", "/todo/count"]);
+    expect(routes[0].methods[0].responses[0].body).toMatchObject({
+        name: "ITodo",
+        objectMembers: { done: { booleans: "all" }, title: { strings: "all" } },
+    });
+});
+
+test("invalid methods and routes are reported and skipped", () => {
+    const { diagnostics, routers } = parseSource(`
+interface IGeneric<T> {
+    "GET": {
+        response: {
+            200: T;
+        };
+    };
+}
+
+/**
+ * #ExportRoute("/")
+ */
+export interface IRoutes {
+    "/a": {
+        "FETCH": {
+            response: {
+                200: string;
+            };
+        };
+        "GET": {
+            response: {
+                200: string;
+            };
+        };
+    };
+    "/b": {
+        "GET": {
+            response: {
+                200: () => void;
+            };
+        };
+    };
+    "/c": IGeneric;
+    "/d": IGeneric<number>;
+}
+`);
+    expect(routers[0].routes.map((route) => [route.route, route.methods.map((method) => method.method)])).toEqual([
+        ["/a", ["GET"]],
+        ["/b", []],
+        ["/d", ["GET"]],
+    ]);
+    const fileName = expect.stringMatching(/routes\.ts$/);
+    expect(diagnostics).toEqual([
+        {
+            column: 9,
+            fileName,
+            line: 15,
+            message: "Invalid HTTP method: FETCH",
+            path: ["IRoutes", "/a", "FETCH"],
+            severity: "error",
+        },
+        {
+            column: 22,
+            fileName,
+            line: 29,
+            message: "Bad type for Web API: () => void",
+            path: ["IRoutes", "/b", "GET"],
+            severity: "error",
+        },
+        {
+            column: 5,
+            fileName,
+            line: 33,
+            message: "Missing type argument for type parameter T",
+            path: ["IRoutes", "/c"],
+            severity: "error",
+        },
+    ]);
+    expect(Diagnostics.format(diagnostics[0], path.dirname(diagnostics[0].fileName!)))
+        .toBe("routes.ts:15:9 - error: Invalid HTTP method: FETCH (IRoutes > /a > FETCH)");
+});
+
+test("headers, cookies and response headers", () => {
+    const { diagnostics, routers } = parseSource(`
+/**
+ * #ExportRoute("/")
+ */
+export interface IRoutes {
+    "/todo": {
+        "POST": {
+            headers: {
+                /**
+                 * Id of the request for tracing
+                 */
+                "X-Request-Id": string;
+                "If-Match"?: string;
+            };
+            cookies: {
+                session: string;
+                theme?: number;
+            };
+            response: {
+                201: number;
+                412: undefined;
+            };
+            responseHeaders: {
+                201: {
+                    "Location": string;
+                    "X-Rate-Limit"?: number;
+                };
+                503: {
+                    "Retry-After": number;
+                };
+            };
+            responseBody: string;
+        };
+    };
+}
+`);
+    const method = routers[0].routes[0].methods[0];
+    expect(method.headers).toMatchObject([
+        { documentation: "Id of the request for tracing", name: "X-Request-Id", required: true },
+        { name: "If-Match", required: false, type: { strings: "all" } },
+    ]);
+    expect(method.cookies).toMatchObject([
+        { name: "session", required: true, type: { strings: "all" } },
+        { name: "theme", required: false, type: { numbers: "all" } },
+    ]);
+    expect(method.responses).toMatchObject([
+        {
+            headers: [
+                { name: "Location", required: true, type: { strings: "all" } },
+                { name: "X-Rate-Limit", required: false, type: { numbers: "all" } },
+            ],
+            status: 201,
+        },
+        { headers: [], status: 412 },
+    ]);
+    expect(diagnostics).toMatchObject([
+        { line: 32, message: "Ignoring unknown method member responseBody", severity: "warning" },
+        { line: 28, message: "Ignoring headers for undeclared response 503", severity: "warning" },
+    ]);
+});
+
+const PARAMS_SOURCE = `
+/**
+ * #ExportRoute("/lists/:listId")
+ */
+export interface IParamRoutes {
+    "/items/:id": {
+        "GET": {
+            param: {
+                id: number;
+            };
+            response: {
+                200: string;
+            };
+        };
+    };
+    "/items": {
+        "POST": {
+            param: {
+                listId: string;
+                id: number;
+            };
+            response: {
+                201: number;
+            };
+        };
+    };
+    "/filter/:filter": {
+        "GET": {
+            param: {
+                listId: string;
+                filter: { done: boolean };
+            };
+            response: {
+                200: string;
+            };
+        };
+    };
+}
+`;
+
+test("params are checked against the placeholders of the route", () => {
+    const { diagnostics } = parseSource(PARAMS_SOURCE);
+    expect(diagnostics).toMatchObject([
+        {
+            message: "Route placeholder :listId is not declared as param",
+            path: ["IParamRoutes", "/items/:id", "GET"],
+            severity: "warning",
+        },
+        {
+            message: "Param id does not appear in route /lists/:listId/items",
+            path: ["IParamRoutes", "/items", "POST"],
+            severity: "warning",
+        },
+        {
+            message: "Param filter can not be encoded in a URL",
+            path: ["IParamRoutes", "/filter/:filter", "GET"],
+            severity: "warning",
+        },
+    ]);
+});
+
+test("missing params can be inferred", () => {
+    const { diagnostics, routers } = parseSource(PARAMS_SOURCE, { inferParams: true });
+    expect(routers[0].routes[0].methods[0].params).toMatchObject([
+        { name: "id", type: { numbers: "all" } },
+        { name: "listId", type: { strings: "all" } },
+    ]);
+    expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+        "Param id does not appear in route /lists/:listId/items",
+        "Param filter can not be encoded in a URL",
+    ]);
+});
@@ -0,0 +1,1555 @@
+import * as path from "path";
+import * as ts from "typescript";
+import Diagnostics from "./Diagnostics";
+import { getTags, hasTags, mergeTags, parseTagValue } from "./docTags";
+import { IRouterFilter, matchesRouterFilter, NO_ROUTER_FILTER } from "./filters";
+import {
+    indexedAccess,
+    isAssignable,
+    isPrimitiveType,
+    joinUnion,
+    literalKeys,
+    makeOptional,
+    omitMembers,
+    splitUnion,
+    stripUndefined,
+} from "./typeOperations";
+import TypeParseFailure from "./TypeParseFailure";
+import {
+    ICustomRouteMethod,
+    IDocTags,
+    IDocumented,
+    IExportedRoute,
+    IExportedRouteMethod,
+    IExportedRouter,
+    IObjectType,
+    IQueryParam,
+    ISourceLocation,
+    IStandardRouteMethod,
+    IStringType,
+    StandardMethod,
+    Type,
+} from "./types";
+
+// tslint:disable member-ordering
+
+interface IMethodCallInfo {
+    authorization: IExportedRouteMethod["authorization"];
+    body: IExportedRouteMethod["body"];
+    cookies: IExportedRouteMethod["cookies"];
+    headers: IExportedRouteMethod["headers"];
+    name: IExportedRouteMethod["name"];
+    params: IExportedRouteMethod["params"];
+    query: IExportedRouteMethod["query"];
+    responses: IExportedRouteMethod["responses"];
+}
+
+interface ITypeArguments {
+    [typeParameter: string]: Type;
+}
+
+// key and value type of an index signature
+type IndexSignature = [Type, Type];
+
+export interface IFrontendOptions {
+    // additional (non standard) HTTP methods routes may use, e.g. PROPFIND
+    customMethods: string[];
+    // add placeholders of the route which are not declared as param (as string) instead of warning about them
+    inferParams: boolean;
+    // name of the marker in the documentation of a router, e.g. ExportRoute for #ExportRoute("/")
+    marker: string;
+    // routers not passing the filter are skipped without processing them
+    filter: IRouterFilter;
+}
+
+export const DEFAULT_MARKER = "ExportRoute";
+
+const STANDARD_METHODS: StandardMethod[] = [
+    "GET",
+    "HEAD",
+    "POST",
+    "PUT",
+    "PATCH",
+    "DELETE",
+    "CONNECT",
+    "OPTIONS",
+    "TRACE",
+];
+
+// a named type whose definition is currently parsed, references to it within the definition are not followed
+interface IParsingType {
+    node: ts.Node;
+    // name of the reference including type arguments
+    key: string;
+    // name the parsed type gets (an alias may rename it)
+    name: string;
+}
+
+interface IResolvedReference {
+    // name of the reference including type arguments, e.g. Paginated<ITodoItem>
+    name: string;
+    node: ts.Node;
+    typeArguments: ITypeArguments;
+}
+
+export default class RoutesFrontend {
+    public static getIdentifierName(id: ts.Identifier | { unescapedText: string }): string {
+        if ("unescapedText" in id && typeof id.unescapedText === "string") {
+            return id.unescapedText;
+        }
+        if ("text" in id && typeof id.text === "string") {
+            return id.text;
+        }
+        if ("escapedText" in id && typeof id.escapedText === "string") {
+            return id.escapedText;
+        }
+        throw new Error("Failed to get type from identifier " + JSON.stringify(id));
+    }
+    public static showEntityName(entity: ts.EntityName): string {
+        if (entity.kind === ts.SyntaxKind.Identifier) {
+            const i = entity as ts.Identifier;
+            return RoutesFrontend.getIdentifierName(i);
+        }
+        const q = entity as ts.QualifiedName;
+        const left = RoutesFrontend.showEntityName(q.left);
+        return `${left}.${RoutesFrontend.getIdentifierName(q.right)}`;
+    }
+
+    private static mergeDocumentation(acc: IDocumented, doc: IDocumented): IDocumented {
+        const documentation = acc.documentation !== null && doc.documentation !== null
+            ? acc.documentation + "\n\n" + doc.documentation
+            : acc.documentation !== null ? acc.documentation : doc.documentation;
+        return {
+            ...mergeTags(acc, doc),
+            documentation,
+        };
+    }
+
+    private static getTagsOfComment(jsDoc: ts.JSDoc): IDocTags {
+        const tags: IDocTags = {};
+        for (const tag of jsDoc.tags || []) {
+            const text = tag.comment !== undefined ? tag.comment.trim() : "";
+            switch (tag.tagName.text) {
+                case "deprecated":
+                    tags.deprecated = text;
+                    break;
+                case "since":
+                    tags.since = text;
+                    break;
+                case "see":
+                    tags.see = [...(tags.see || []), text];
+                    break;
+                case "default":
+                    tags.default = parseTagValue(text);
+                    break;
+                case "example":
+                    tags.example = parseTagValue(text);
+                    break;
+            }
+        }
+        return tags;
+    }
+
+    public static getDocumentation(node: ts.Node): IDocumented {
+        if (ts.isJSDoc(node)) {
+            return {
+                ...RoutesFrontend.getTagsOfComment(node),
+                documentation: node.comment !== undefined ? node.comment : null,
+            };
+        }
+        if ("jsDoc" in node) {
+            const { jsDoc } = node as { jsDoc: ts.Node[] };
+            return jsDoc.map(RoutesFrontend.getDocumentation).reduce(RoutesFrontend.mergeDocumentation);
+        }
+        return {
+            documentation: null,
+        };
+    }
+
+    public static getSourceLocation(node: ts.Node): ISourceLocation {
+        const sourceFile = node.getSourceFile();
+        // synthesized nodes have no position
+        if (node.pos < 0) {
+            return { fileName: sourceFile.fileName, line: 0 };
+        }
+        const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        return { fileName: sourceFile.fileName, line: line + 1 };
+    }
+
+    public static getRouterBase(doc: IDocumented, marker: string = DEFAULT_MARKER): string | null {
+        if (doc.documentation === null) {
+            return null;
+        }
+        const pattern = new RegExp(`#${marker}\\((".*")\\)`);
+        const m = doc.documentation.match(pattern);
+        if (m === null || m[1] === undefined) {
+            return null;
+        }
+        try {
+            const s = JSON.parse(m[1]);
+            if (typeof s === "string") {
+                // strip the comment from the documentation
+                doc.documentation = doc.documentation.replace(pattern, "").trim();
+                return s;
+            }
+            return null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    private readonly program: ts.Program;
+    private readonly checker: ts.TypeChecker;
+    private readonly options: IFrontendOptions;
+    public readonly diagnostics: Diagnostics;
+    private typeArguments: ITypeArguments;
+    // router, route, method, ... currently processed (for diagnostics)
+    private path: string[];
+    private parsing: IParsingType[];
+    public constructor(
+        program: ts.Program,
+        options: IFrontendOptions = {
+            customMethods: [],
+            filter: NO_ROUTER_FILTER,
+            inferParams: false,
+            marker: DEFAULT_MARKER,
+        },
+    ) {
+        this.program = program;
+        this.checker = program.getTypeChecker();
+        this.options = options;
+        this.diagnostics = new Diagnostics();
+        this.typeArguments = {};
+        this.path = [];
+        this.parsing = [];
+    }
+
+    /**
+     * Process an item (router, route, method, ...) named name. If f fails, an error is recorded and null is
+     * returned, so the item is skipped instead of aborting the whole run.
+     */
+    private tryItem<T>(name: string, node: ts.Node, f: () => T): T | null {
+        const oldPath = this.path;
+        this.path = [...oldPath, name];
+        try {
+            return f();
+        } catch (error) {
+            if (error instanceof TypeParseFailure) {
+                this.diagnostics.add("error", error.summary(), error.node !== null ? error.node : node, this.path);
+            } else {
+                this.diagnostics.add("error", error instanceof Error ? error.message : String(error), node, this.path);
+            }
+            return null;
+        } finally {
+            this.path = oldPath;
+        }
+    }
+
+    private warn(message: string, node: ts.Node): void {
+        this.diagnostics.add("warning", message, node, this.path);
+    }
+
+    /**
+     * Run f with the given type arguments in scope, restoring the previous scope afterwards.
+     */
+    private withScope<T>(typeArguments: ITypeArguments, f: () => T): T {
+        const oldTypeArguments = this.typeArguments;
+        this.typeArguments = typeArguments;
+        try {
+            return f();
+        } finally {
+            this.typeArguments = oldTypeArguments;
+        }
+    }
+
+    private inScopeOf<T>(reference: IResolvedReference, f: (node: ts.Node) => T): T {
+        return this.withScope(reference.typeArguments, () => f(reference.node));
+    }
+
+    /**
+     * Bind type arguments to the type parameters of a declaration. Missing arguments are filled with
+     * the defaults of the parameters, which are parsed in the scope of the declaration (so they can
+     * refer to earlier parameters).
+     */
+    private bindTypeArguments(declaration: ts.Node, typeArguments: Type[]): ITypeArguments {
+        const typeParameters = getTypeParameters(declaration);
+        if (typeArguments.length > typeParameters.length) {
+            throw new Error(`Expected ${typeParameters.length} type arguments, got ${typeArguments.length}`);
+        }
+        const result: ITypeArguments = {};
+        typeParameters.forEach((typeParameter, index) => {
+            const parameterName = RoutesFrontend.getIdentifierName(typeParameter.name);
+            const defaultType = typeParameter.default;
+            if (index < typeArguments.length) {
+                result[parameterName] = typeArguments[index];
+            } else if (defaultType !== undefined) {
+                result[parameterName] = this.withScope({ ...result }, () =>
+                    this.parseType(defaultType, null, false),
+                );
+            } else {
+                throw new Error(`Missing type argument for type parameter ${parameterName}`);
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Resolve a reference to a declaration, parsing the type arguments of the reference in the current scope.
+     * The reference is named after the declaration, an import alias (IRenamed) or the namespace import it is
+     * accessed through (types.ITodo) does not make it another type.
+     */
+    private resolveReference(
+        target: ts.Node | null,
+        baseName: string,
+        typeArgumentNodes: ts.NodeArray<ts.TypeNode> | undefined,
+        isKeyof: boolean,
+    ): IResolvedReference | null {
+        if (target === null) {
+            return null;
+        }
+        const typeArguments = typeArgumentNodes === undefined
+            ? []
+            : typeArgumentNodes.map((typeArgument) => this.parseType(typeArgument, null, isKeyof));
+        const declarationName = getQualifiedDeclarationName(target);
+        const name = declarationName !== null ? declarationName : baseName;
+        return {
+            name: typeArguments.length > 0
+                ? `${name}<${typeArguments.map(RoutesFrontend.showTypeName).join(", ")}>`
+                : name,
+            node: target,
+            typeArguments: this.bindTypeArguments(target, typeArguments),
+        };
+    }
+
+    private lookupTypeArgument(entity: ts.EntityName): Type | null {
+        if (entity.kind !== ts.SyntaxKind.Identifier) {
+            return null;
+        }
+        const parameterName = RoutesFrontend.getIdentifierName(entity);
+        if (!Object.prototype.hasOwnProperty.call(this.typeArguments, parameterName)) {
+            return null;
+        }
+        return this.typeArguments[parameterName];
+    }
+
+    /**
+     * Show a type in a compact form, used to name instantiations of generic types.
+     */
+    private static showTypeName(type: Type): string {
+        if ("name" in type && type.name !== null) {
+            return type.name;
+        }
+        if ("numbers" in type) {
+            return type.numbers === "all" ? "number" : type.numbers.join(" | ");
+        }
+        if ("booleans" in type) {
+            return type.booleans === "all" ? "boolean" : type.booleans.join(" | ");
+        }
+        if ("strings" in type) {
+            return type.strings === "all" ? "string" : type.strings.map((s) => JSON.stringify(s)).join(" | ");
+        }
+        if ("arrayMembers" in type) {
+            return `Array<${RoutesFrontend.showTypeName(type.arrayMembers)}>`;
+        }
+        if ("tupleMembers" in type) {
+            return `[${type.tupleMembers.map(RoutesFrontend.showTypeName).join(", ")}]`;
+        }
+        if ("objectMembers" in type) {
+            const members = Object.keys(type.objectMembers).map((key) =>
+                `${key}: ${RoutesFrontend.showTypeName(type.objectMembers[key])}; `,
+            );
+            return `{ ${members.join("")}}`;
+        }
+        if ("dictionaryValue" in type) {
+            const members = Object.keys(type.dictionaryMembers).map((key) =>
+                `${key}: ${RoutesFrontend.showTypeName(type.dictionaryMembers[key])}; `,
+            );
+            const keyName = RoutesFrontend.showTypeName(type.dictionaryKey);
+            return `{ [key: ${keyName}]: ${RoutesFrontend.showTypeName(type.dictionaryValue)}; ${members.join("")}}`;
+        }
+        if ("null" in type) {
+            return "null";
+        }
+        if ("undefined" in type) {
+            return "undefined";
+        }
+        if ("reference" in type) {
+            return type.reference;
+        }
+        if ("union" in type) {
+            return type.union.map(RoutesFrontend.showTypeName).join(" | ");
+        }
+        if ("intersection" in type) {
+            return type.intersection.map(RoutesFrontend.showTypeName).join(" & ");
+        }
+        return "unknown";
+    }
+
+    /**
+     * Find the declaration of the symbol at the given location, following imports, re-exports and namespaces.
+     * Declarations from the default library (like Date) are not resolved, we only know them by name. Type
+     * aliases from the default library (like Partial<T>) are resolved, though.
+     */
+    private lookupDeclaration(location: ts.Node): ts.Node | null {
+        let symbol = this.checker.getSymbolAtLocation(location);
+        if (symbol === undefined) {
+            return null;
+        }
+        // tslint:disable-next-line no-bitwise
+        if ((symbol.flags & ts.SymbolFlags.Alias) !== 0) {
+            symbol = this.checker.getAliasedSymbol(symbol);
+        }
+        const declarations = symbol.declarations || [];
+        const declaration = declarations.find(isTypeDeclaration) || declarations[0];
+        if (declaration === undefined) {
+            return null;
+        }
+        if (this.isDefaultLibraryDeclaration(declaration) && !ts.isTypeAliasDeclaration(declaration)) {
+            return null;
+        }
+        return declaration;
+    }
+
+    private isDefaultLibraryDeclaration(declaration: ts.Node): boolean {
+        return this.program.isSourceFileDefaultLibrary(declaration.getSourceFile());
+    }
+
+    public lookupEntity(entity: ts.EntityName): ts.Node | null {
+        return this.lookupDeclaration(entity.kind === ts.SyntaxKind.QualifiedName ? entity.right : entity);
+    }
+
+    public lookupExpression(expression: ts.Expression): ts.Node | null {
+        return this.lookupDeclaration(ts.isPropertyAccessExpression(expression) ? expression.name : expression);
+    }
+
+    /**
+     * Interfaces can be declared multiple times (e.g., to augment a module), in which case the members
+     * of all declarations are merged.
+     */
+    private getMergedDeclarations(declaration: ts.InterfaceDeclaration): ts.InterfaceDeclaration[] {
+        const symbol = this.checker.getSymbolAtLocation(declaration.name);
+        if (symbol === undefined || symbol.declarations === undefined) {
+            return [declaration];
+        }
+        return symbol.declarations.filter(ts.isInterfaceDeclaration);
+    }
+
+    private getMergedMembers(declaration: ts.InterfaceDeclaration): ts.TypeElement[] {
+        const members: ts.TypeElement[] = [];
+        for (const mergedDeclaration of this.getMergedDeclarations(declaration)) {
+            members.push(...mergedDeclaration.members);
+        }
+        return members;
+    }
+
+    private performKeyOf(type: Type): IStringType {
+        if ("objectMembers" in type) {
+            return {
+                documentation: type.documentation,
+                name: type.name,
+                strings: Object.keys(type.objectMembers),
+            };
+        } else if ("dictionaryValue" in type) {
+            return {
+                documentation: type.documentation,
+                name: type.name,
+                strings: "all",
+            };
+        } else if ("intersection" in type) {
+            return {
+                documentation: type.documentation,
+                name: type.name,
+                strings: type.intersection.map((t) => this.performKeyOf(t).strings).reduce(
+                    (acc: IStringType["strings"], strings) => {
+                        if (strings === "all") {
+                            return acc;
+                        }
+                        if (acc === "all") {
+                            return strings;
+                        }
+                        return acc.filter((s) => strings.includes(s));
+                    }, "all"),
+            };
+        } else if ("union" in type) {
+            return {
+                documentation: type.documentation,
+                name: type.name,
+                strings: type.union.map((t) => this.performKeyOf(t).strings).reduce(
+                    (acc: IStringType["strings"], strings) => {
+                        if (strings === "all" || acc === "all") {
+                            return "all";
+                        }
+                        return acc.concat(strings.filter((s) => !acc.includes(s)));
+                    }, []),
+            };
+        } else {
+            throw new Error(`Failed to perform keyof on ${RoutesFrontend.showTypeName(type)}`);
+        }
+    }
+
+    private parseType(type: ts.Node, name: string | null, isKeyof: boolean): Type {
+        try {
+            switch (type.kind) {
+                case ts.SyntaxKind.BooleanKeyword:
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        booleans: "all",
+                        name,
+                    };
+                case ts.SyntaxKind.NumberKeyword:
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        name,
+                        numbers: "all",
+                    };
+                case ts.SyntaxKind.StringKeyword:
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        name,
+                        strings: "all",
+                    };
+                case ts.SyntaxKind.ObjectKeyword:
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        name,
+                        objectMembers: {},
+                    };
+                case ts.SyntaxKind.NeverKeyword:
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        name,
+                        union: [],
+                    };
+                case ts.SyntaxKind.NullKeyword:
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        null: true,
+                    };
+                case ts.SyntaxKind.UndefinedKeyword:
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        undefined: true,
+                    };
+                case ts.SyntaxKind.FunctionType: {
+                    if (isKeyof) {
+                        // We return an empty type to allow keyof to function correctly
+                        // (so you can take the key of functions, even if the functions
+                        // are not part of the object passed along the web API)
+                        return {
+                            documentation: null,
+                            intersection: [],
+                            name: null,
+                        };
+                    }
+                    throw TypeParseFailure.badType(type, type.getSourceFile());
+                }
+                case ts.SyntaxKind.ArrayType: {
+                    const array = type as ts.ArrayTypeNode;
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        arrayMembers: this.parseType(array.elementType, null, isKeyof),
+                        name,
+                    };
+                }
+                case ts.SyntaxKind.LiteralType: {
+                    const literal = type as ts.LiteralTypeNode;
+                    switch (literal.literal.kind) {
+                        case ts.SyntaxKind.TrueKeyword:
+                        case ts.SyntaxKind.FalseKeyword:
+                            return {
+                                ...RoutesFrontend.getDocumentation(type),
+                                booleans: [literal.literal.kind === ts.SyntaxKind.TrueKeyword],
+                                name,
+                            };
+                        case ts.SyntaxKind.NumericLiteral: {
+                            const numLiteral = literal.literal as ts.NumericLiteral;
+                            return {
+                                ...RoutesFrontend.getDocumentation(type),
+                                name,
+                                numbers: [Number(numLiteral.text)],
+                            };
+                        }
+                        case ts.SyntaxKind.StringLiteral: {
+                            const numLiteral = literal.literal as ts.StringLiteral;
+                            return {
+                                ...RoutesFrontend.getDocumentation(type),
+                                name,
+                                strings: [numLiteral.text],
+                            };
+                        }
+                    }
+                    break;
+                }
+                case ts.SyntaxKind.TupleType: {
+                    const tuple = type as ts.TupleTypeNode;
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        name,
+                        tupleMembers: tuple.elementTypes.map((member) =>
+                            this.parseType(member, null, isKeyof),
+                        ),
+                    };
+                }
+                case ts.SyntaxKind.TypeReference: {
+                    const ref = type as ts.TypeReferenceNode;
+                    const typeArgument = this.lookupTypeArgument(ref.typeName);
+                    if (typeArgument !== null) {
+                        return name !== null && "name" in typeArgument
+                            ? { ...typeArgument, name }
+                            : typeArgument;
+                    }
+                    const r = this.resolveReference(
+                        this.lookupEntity(ref.typeName),
+                        RoutesFrontend.showEntityName(ref.typeName),
+                        ref.typeArguments,
+                        isKeyof,
+                    );
+                    if (r === null) {
+                        const typeName = RoutesFrontend.showEntityName(ref.typeName);
+                        if ((typeName === "Array" || typeName === "ReadonlyArray")
+                            && ref.typeArguments !== undefined
+                            && ref.typeArguments.length === 1) {
+                            // the array interfaces of the default library are not resolved
+                            return {
+                                ...RoutesFrontend.getDocumentation(type),
+                                arrayMembers: this.parseType(ref.typeArguments[0], null, isKeyof),
+                                name,
+                            };
+                        }
+                        if (typeName === "Omit" && ref.typeArguments !== undefined && ref.typeArguments.length === 2) {
+                            // Omit is not part of the default library (yet), so we provide it ourselves
+                            const [baseType, omittedKeys] = ref.typeArguments.map((argument) =>
+                                this.parseType(argument, null, isKeyof),
+                            );
+                            const keys = literalKeys(omittedKeys);
+                            const omitName = "Omit<"
+                                + [baseType, omittedKeys].map(RoutesFrontend.showTypeName).join(", ")
+                                + ">";
+                            return omitMembers(baseType, keys === "all" ? [] : keys, name !== null ? name : omitName);
+                        }
+                        return {
+                            ...RoutesFrontend.getDocumentation(type),
+                            name: typeName,
+                            objectMembers: {},
+                        };
+                    }
+                    return this.parseReference(r, name, isKeyof);
+                }
+                case ts.SyntaxKind.ImportType: {
+                    const importType = type as ts.ImportTypeNode;
+                    if (importType.qualifier === undefined || importType.isTypeOf) {
+                        break;
+                    }
+                    const r = this.resolveReference(
+                        this.lookupEntity(importType.qualifier),
+                        RoutesFrontend.showEntityName(importType.qualifier),
+                        importType.typeArguments,
+                        isKeyof,
+                    );
+                    if (r !== null) {
+                        return this.parseReference(r, name, isKeyof);
+                    }
+                    break;
+                }
+                case ts.SyntaxKind.ExpressionWithTypeArguments: {
+                    const ex = type as ts.ExpressionWithTypeArguments;
+                    const r = this.resolveReference(
+                        this.lookupExpression(ex.expression),
+                        ex.expression.getText(),
+                        ex.typeArguments,
+                        isKeyof,
+                    );
+                    if (r !== null) {
+                        return this.parseReference(r, name, isKeyof);
+                    }
+                    break;
+                }
+                case ts.SyntaxKind.TypeOperator: {
+                    const { operator, type: innerType } = type as ts.TypeOperatorNode;
+                    if (operator === ts.SyntaxKind.KeyOfKeyword) {
+                        const parsedType = this.parseType(innerType, null, true);
+                        return {
+                            ...this.performKeyOf(parsedType),
+                            ...RoutesFrontend.getDocumentation(type),
+                            name,
+                        };
+                    }
+                    break;
+                }
+                case ts.SyntaxKind.ParenthesizedType: {
+                    const { type: innerType } = type as ts.ParenthesizedTypeNode;
+                    return this.parseType(innerType, name, isKeyof);
+                }
+                case ts.SyntaxKind.IndexedAccessType: {
+                    const { objectType, indexType } = type as ts.IndexedAccessTypeNode;
+                    const result = indexedAccess(
+                        this.parseType(objectType, null, isKeyof),
+                        this.parseType(indexType, null, isKeyof),
+                    );
+                    return name !== null && "name" in result ? { ...result, name } : result;
+                }
+                case ts.SyntaxKind.MappedType:
+                    return this.parseMappedType(type as ts.MappedTypeNode, name, isKeyof);
+                case ts.SyntaxKind.ConditionalType:
+                    return this.parseConditionalType(type as ts.ConditionalTypeNode, name, isKeyof);
+                case ts.SyntaxKind.TypeLiteral: {
+                    const { members } = type as ts.TypeLiteralNode;
+                    return RoutesFrontend.makeObjectType(
+                        RoutesFrontend.getDocumentation(type),
+                        name,
+                        this.parseMembers(members, isKeyof),
+                        this.parseIndexSignature(members, isKeyof),
+                    );
+                }
+                case ts.SyntaxKind.InterfaceDeclaration:
+                case ts.SyntaxKind.ClassDeclaration: {
+                    const declarations = type.kind === ts.SyntaxKind.InterfaceDeclaration
+                        ? this.getMergedDeclarations(type as ts.InterfaceDeclaration)
+                        : [type as ts.ClassDeclaration];
+                    let objectMembers: IObjectType["objectMembers"] = {};
+                    let indexSignature: IndexSignature | null = null;
+                    for (const declaration of declarations) {
+                        objectMembers = {
+                            ...objectMembers,
+                            ...this.parseMembers(declaration.members, isKeyof),
+                        };
+                        if (indexSignature === null) {
+                            indexSignature = this.parseIndexSignature(declaration.members, isKeyof);
+                        }
+                    }
+                    for (const declaration of declarations) {
+                        if (declaration.heritageClauses === undefined) {
+                            continue;
+                        }
+                        for (const heritageClause of declaration.heritageClauses) {
+                            if (heritageClause.token !== ts.SyntaxKind.ExtendsKeyword) {
+                                continue;
+                            }
+                            for (const parentType of heritageClause.types) {
+                                const parsedType = this.parseType(parentType, null, isKeyof);
+                                if ("objectMembers" in parsedType) {
+                                    objectMembers = {
+                                        ...objectMembers,
+                                        ...parsedType.objectMembers,
+                                    };
+                                } else if ("dictionaryValue" in parsedType) {
+                                    objectMembers = {
+                                        ...objectMembers,
+                                        ...parsedType.dictionaryMembers,
+                                    };
+                                    if (indexSignature === null) {
+                                        indexSignature = [parsedType.dictionaryKey, parsedType.dictionaryValue];
+                                    }
+                                }
+                            }
+                        }
+                    }
+                    return RoutesFrontend.makeObjectType(
+                        RoutesFrontend.getDocumentation(type),
+                        name,
+                        objectMembers,
+                        indexSignature,
+                    );
+                }
+                case ts.SyntaxKind.EnumDeclaration: {
+                    const { members } = type as ts.EnumDeclaration;
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        name,
+                        union: members.map((member) => this.parseEnumMember(member, null)),
+                    };
+                }
+                case ts.SyntaxKind.EnumMember:
+                    return this.parseEnumMember(type as ts.EnumMember, name);
+                case ts.SyntaxKind.UnionType: {
+                    const union = type as ts.UnionTypeNode;
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        name,
+                        union: union.types.map((subType) => this.parseType(subType, null, isKeyof)),
+                    };
+                }
+                case ts.SyntaxKind.IntersectionType: {
+                    const intersection = type as ts.IntersectionTypeNode;
+                    return {
+                        ...RoutesFrontend.getDocumentation(type),
+                        intersection: intersection.types.map((subType) => this.parseType(subType, null, isKeyof)),
+                        name,
+                    };
+                }
+                case ts.SyntaxKind.TypeAliasDeclaration: {
+                    const { name: aliasName, type: nextType } = type as ts.TypeAliasDeclaration;
+                    const r = this.parseType(nextType, name !== null
+                        ? name
+                        : RoutesFrontend.getIdentifierName(aliasName),
+                        isKeyof,
+                    );
+                    if ("documentation" in r && r.documentation === null && !this.isDefaultLibraryDeclaration(type)) {
+                        const doc = RoutesFrontend.getDocumentation(type);
+                        Object.assign(r, getTags(doc), getTags(r));
+                        r.documentation = doc.documentation;
+                    }
+                    return r;
+                }
+            }
+        } catch (error) {
+            throw TypeParseFailure.withContext(error, type, type.getSourceFile());
+        }
+        throw TypeParseFailure.unhandledType(type, type.getSourceFile());
+    }
+
+    /**
+     * Parse the declaration a reference resolved to. Types named after the declaration remember where it is.
+     * A reference to a type from within its own definition becomes a reference node instead of recursing.
+     */
+    private parseReference(r: IResolvedReference, name: string | null, isKeyof: boolean): Type {
+        const enclosing = this.parsing.find((entry) => entry.node === r.node && entry.key === r.name);
+        if (enclosing !== undefined) {
+            return { reference: enclosing.name };
+        }
+        const typeName = name === null ? r.name : name;
+        this.parsing.push({ key: r.name, name: typeName, node: r.node });
+        let type: Type;
+        try {
+            type = this.inScopeOf(r, (newType) => this.parseType(newType, typeName, isKeyof));
+        } finally {
+            this.parsing.pop();
+        }
+        if (name !== null
+            || !("name" in type)
+            || type.name === null
+            || type.source !== undefined
+            || this.isDefaultLibraryDeclaration(r.node)) {
+            return type;
+        }
+        return { ...type, source: RoutesFrontend.getSourceLocation(r.node) };
+    }
+
+    /**
+     * Attach the tags of a member (e.g. @deprecated or an @example overriding the one of the type) to its type.
+     * Named types are wrapped, as they would otherwise carry the tags everywhere they are referenced.
+     */
+    private static withMemberTags(type: Type, doc: IDocumented): Type {
+        if (!hasTags(doc)) {
+            return type;
+        }
+        if (!("documentation" in type) || type.name !== null) {
+            return {
+                ...getTags(doc),
+                documentation: null,
+                name: null,
+                union: [type],
+            };
+        }
+        return {
+            ...type,
+            ...getTags(doc),
+        };
+    }
+
+    /**
+     * Parse the properties of an object type. Optional properties get the type `T | undefined`.
+     */
+    private parseMembers(
+        members: ReadonlyArray<ts.TypeElement | ts.ClassElement>,
+        isKeyof: boolean,
+    ): IObjectType["objectMembers"] {
+        const objectMembers: IObjectType["objectMembers"] = {};
+        for (const member of members) {
+            if (member.name === undefined || !isPublicProperty(member)) {
+                continue;
+            }
+            const { type: memberType, questionToken } = member;
+            const nameString: string | null = RoutesFrontend.getMemberName(member);
+            if (nameString === null || memberType === undefined) {
+                continue;
+            }
+            objectMembers[nameString] = RoutesFrontend.withMemberTags(
+                this.parseType(memberType, null, isKeyof),
+                RoutesFrontend.getDocumentation(member),
+            );
+            if (questionToken !== undefined) {
+                objectMembers[nameString] = {
+                    documentation: null,
+                    name: null,
+                    union: [objectMembers[nameString], {
+                        undefined: true,
+                    }],
+                };
+            }
+        }
+        return objectMembers;
+    }
+
+    /**
+     * Parse the index signature of an object type. If there are string and number index signatures,
+     * the string index signature wins (it has to cover the number index signature anyway).
+     */
+    private parseIndexSignature(
+        members: ReadonlyArray<ts.TypeElement | ts.ClassElement>,
+        isKeyof: boolean,
+    ): IndexSignature | null {
+        let result: IndexSignature | null = null;
+        for (const member of members) {
+            if (member.kind !== ts.SyntaxKind.IndexSignature) {
+                continue;
+            }
+            const { parameters, type: valueType } = member as ts.IndexSignatureDeclaration;
+            if (parameters.length !== 1 || parameters[0].type === undefined || valueType === undefined) {
+                continue;
+            }
+            const keyType = this.parseType(parameters[0].type, null, isKeyof);
+            if (result === null || "strings" in keyType) {
+                result = [keyType, this.parseType(valueType, null, isKeyof)];
+            }
+        }
+        return result;
+    }
+
+    private static makeObjectType(
+        doc: IDocumented,
+        name: string | null,
+        objectMembers: IObjectType["objectMembers"],
+        indexSignature: IndexSignature | null,
+    ): Type {
+        if (indexSignature === null) {
+            return {
+                ...doc,
+                name,
+                objectMembers,
+            };
+        }
+        return {
+            ...doc,
+            dictionaryKey: indexSignature[0],
+            dictionaryMembers: objectMembers,
+            dictionaryValue: indexSignature[1],
+            name,
+        };
+    }
+
+    /**
+     * Evaluate a mapped type ({ [K in Keys]: T }) for every key. If the keys are not known literals
+     * (e.g. Record<string, T>), the result is a dictionary.
+     */
+    private parseMappedType(type: ts.MappedTypeNode, name: string | null, isKeyof: boolean): Type {
+        const { typeParameter, questionToken, type: memberTypeNode } = type;
+        if (typeParameter.constraint === undefined) {
+            throw new Error("Mapped type without constraint");
+        }
+        const constraint = this.parseType(typeParameter.constraint, null, isKeyof);
+        const keys = literalKeys(constraint);
+        const parameterName = RoutesFrontend.getIdentifierName(typeParameter.name);
+        if (keys === "all") {
+            const valueType = memberTypeNode === undefined
+                ? { documentation: null, intersection: [], name: null }
+                : this.withScope({ ...this.typeArguments, [parameterName]: constraint }, () =>
+                    this.parseType(memberTypeNode, null, isKeyof),
+                );
+            return RoutesFrontend.makeObjectType(
+                RoutesFrontend.getDocumentation(type),
+                name,
+                {},
+                [constraint, valueType],
+            );
+        }
+        const objectMembers: IObjectType["objectMembers"] = {};
+        for (const key of keys) {
+            const keyType: Type = {
+                documentation: null,
+                name: null,
+                strings: [key],
+            };
+            let memberType: Type = memberTypeNode === undefined
+                ? { documentation: null, intersection: [], name: null }
+                : this.withScope({ ...this.typeArguments, [parameterName]: keyType }, () =>
+                    this.parseType(memberTypeNode, null, isKeyof),
+                );
+            if (questionToken !== undefined) {
+                memberType = questionToken.kind === ts.SyntaxKind.MinusToken
+                    ? stripUndefined(memberType)[0]
+                    : makeOptional(memberType);
+            }
+            objectMembers[key] = memberType;
+        }
+        return {
+            ...RoutesFrontend.getDocumentation(type),
+            name,
+            objectMembers,
+        };
+    }
+
+    /**
+     * Evaluate a conditional type (T extends U ? X : Y). Like the compiler, we distribute over unions
+     * if T is a type parameter.
+     */
+    private parseConditionalType(type: ts.ConditionalTypeNode, name: string | null, isKeyof: boolean): Type {
+        const { checkType, extendsType, trueType, falseType } = type;
+        const parsedExtendsType = this.parseType(extendsType, null, isKeyof);
+        const evaluate = () => isAssignable(this.parseType(checkType, null, isKeyof), parsedExtendsType)
+            ? this.parseType(trueType, null, isKeyof)
+            : this.parseType(falseType, null, isKeyof);
+        if (checkType.kind === ts.SyntaxKind.TypeReference) {
+            const { typeName } = checkType as ts.TypeReferenceNode;
+            const typeArgument = this.lookupTypeArgument(typeName);
+            if (typeArgument !== null) {
+                const parameterName = RoutesFrontend.showEntityName(typeName);
+                return joinUnion(splitUnion(typeArgument).map((member) =>
+                    this.withScope({ ...this.typeArguments, [parameterName]: member }, evaluate),
+                ), name);
+            }
+        }
+        return joinUnion([evaluate()], name);
+    }
+
+    private parseEnumMember(member: ts.EnumMember, name: string | null): Type {
+        const value = this.checker.getConstantValue(member);
+        if (typeof value === "string") {
+            return {
+                ...RoutesFrontend.getDocumentation(member),
+                name,
+                strings: [value],
+            };
+        }
+        if (typeof value === "number") {
+            return {
+                ...RoutesFrontend.getDocumentation(member),
+                name,
+                numbers: [value],
+            };
+        }
+        throw new Error("Unknown enum member kind");
+    }
+
+    private findMethodCallInfoOnMembers(members: ReadonlyArray<ts.TypeElement>): IMethodCallInfo {
+        const result: IMethodCallInfo = {
+            authorization: null,
+            body: null,
+            cookies: [],
+            headers: [],
+            name: "UNNAMED",
+            params: [],
+            query: [],
+            responses: [],
+        };
+        const responseHeaders: Array<[string, ts.Node, IQueryParam[]]> = [];
+        for (const member of members) {
+            if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
+                continue;
+            }
+            const { type } = member as ts.PropertySignature;
+            const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
+            if (nameString === null || type === undefined) {
+                continue;
+            }
+            switch (nameString) {
+                case "authorization":
+                    result.authorization = {
+                        ...RoutesFrontend.getDocumentation(member),
+                        type: this.parseType(type, null, false),
+                    };
+                    break;
+                case "body":
+                    result.body = {
+                        ...RoutesFrontend.getDocumentation(member),
+                        type: this.parseType(type, null, false),
+                    };
+                    break;
+                case "name": {
+                    const nameType = this.parseType(type, null, false);
+                    if ("strings" in nameType && nameType.strings !== "all") {
+                        result.name = nameType.strings.join("");
+                    }
+                    break;
+                }
+                case "param": {
+                    const params: IExportedRouteMethod["params"] = [];
+                    if (type.kind === ts.SyntaxKind.TypeLiteral) {
+                        const { members: paramMembers } = type as ts.TypeLiteralNode;
+                        for (const paramMember of paramMembers) {
+                            if (paramMember.name === undefined ||
+                                paramMember.kind !== ts.SyntaxKind.PropertySignature) {
+                                continue;
+                            }
+                            const { type: paramType } = paramMember as ts.PropertySignature;
+                            const paramName: string | null = RoutesFrontend.getMemberName(
+                                paramMember as ts.PropertySignature,
+                            );
+                            if (paramName === null || paramType === undefined) {
+                                continue;
+                            }
+                            params.push({
+                                ...RoutesFrontend.getDocumentation(paramMember),
+                                name: paramName,
+                                type: this.parseType(paramType, null, false),
+                            });
+                        }
+                    }
+                    result.params = params;
+                    break;
+                }
+                case "query":
+                    result.query = this.parseQueryParams(type);
+                    break;
+                case "headers":
+                    result.headers = this.parseQueryParams(type);
+                    break;
+                case "cookies":
+                    result.cookies = this.parseQueryParams(type);
+                    break;
+                case "responseHeaders": {
+                    if (type.kind === ts.SyntaxKind.TypeLiteral) {
+                        const { members: responseMembers } = type as ts.TypeLiteralNode;
+                        for (const responseMember of responseMembers) {
+                            if (responseMember.name === undefined ||
+                                responseMember.kind !== ts.SyntaxKind.PropertySignature) {
+                                continue;
+                            }
+                            const { type: headersType } = responseMember as ts.PropertySignature;
+                            const responseCode: string | null = RoutesFrontend.getMemberName(
+                                responseMember as ts.PropertySignature,
+                            );
+                            if (responseCode === null || headersType === undefined) {
+                                continue;
+                            }
+                            responseHeaders.push([responseCode, responseMember, this.parseQueryParams(headersType)]);
+                        }
+                    }
+                    break;
+                }
+                case "response": {
+                    const responses: IExportedRouteMethod["responses"] = [];
+                    if (type.kind === ts.SyntaxKind.TypeLiteral) {
+                        const { members: responseMembers } = type as ts.TypeLiteralNode;
+                        for (const responseMember of responseMembers) {
+                            if (responseMember.name === undefined ||
+                                responseMember.kind !== ts.SyntaxKind.PropertySignature) {
+                                continue;
+                            }
+                            const { type: responseType } = responseMember as ts.PropertySignature;
+                            const responseCode: string | null = RoutesFrontend.getMemberName(
+                                responseMember as ts.PropertySignature,
+                            );
+                            const responseCodeNumber = Number.parseInt(responseCode || "", 10);
+                            if (responseCode === null || responseType === undefined) {
+                                continue;
+                            }
+                            if (Number.isNaN(responseCodeNumber)) {
+                                this.warn(`Ignoring response with invalid status code ${responseCode}`, responseMember);
+                                continue;
+                            }
+                            responses.push({
+                                ...RoutesFrontend.getDocumentation(responseMember),
+                                body: responseType.kind === ts.SyntaxKind.UndefinedKeyword
+                                    ? null
+                                    : this.parseType(responseType, null, false),
+                                headers: [],
+                                status: responseCodeNumber,
+                            });
+                        }
+                    }
+                    result.responses = responses;
+                    break;
+                }
+                default:
+                    this.warn(`Ignoring unknown method member ${nameString}`, member);
+            }
+        }
+        // response headers are declared separately from the responses, so attach them once both are known
+        for (const [responseCode, responseMember, headers] of responseHeaders) {
+            const response = result.responses.find((r) => r.status.toString() === responseCode);
+            if (response === undefined) {
+                this.warn(`Ignoring headers for undeclared response ${responseCode}`, responseMember);
+                continue;
+            }
+            response.headers = headers;
+        }
+        return result;
+    }
+
+    /**
+     * Parse the members of a type literal as query parameters (also used for headers and cookies).
+     * Optional members are not required.
+     */
+    private parseQueryParams(type: ts.TypeNode): IQueryParam[] {
+        const result: IQueryParam[] = [];
+        if (type.kind !== ts.SyntaxKind.TypeLiteral) {
+            return result;
+        }
+        const { members } = type as ts.TypeLiteralNode;
+        for (const member of members) {
+            if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
+                continue;
+            }
+            const { type: memberType, questionToken } = member as ts.PropertySignature;
+            const name: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
+            if (name === null || memberType === undefined) {
+                continue;
+            }
+            result.push({
+                ...RoutesFrontend.getDocumentation(member),
+                name,
+                required: questionToken === undefined,
+                type: this.parseType(memberType, null, false),
+            });
+        }
+        return result;
+    }
+
+    private findMethodCallInfo(node: ts.Node): IMethodCallInfo {
+        switch (node.kind) {
+            case ts.SyntaxKind.TypeAliasDeclaration: {
+                const { type } = node as ts.TypeAliasDeclaration;
+                return this.findMethodCallInfo(type);
+            }
+            case ts.SyntaxKind.InterfaceDeclaration: {
+                const members = this.getMergedMembers(node as ts.InterfaceDeclaration);
+                return this.findMethodCallInfoOnMembers(members);
+            }
+            case ts.SyntaxKind.TypeReference: {
+                const r = this.resolveTypeReferenceNode(node as ts.TypeReferenceNode);
+                if (r !== null) {
+                    return this.inScopeOf(r, (target) => this.findMethodCallInfo(target));
+                }
+                break;
+            }
+            case ts.SyntaxKind.TypeLiteral: {
+                const { members } = node as ts.TypeLiteralNode;
+                return this.findMethodCallInfoOnMembers(members);
+            }
+            default:
+                break;
+        }
+        return {
+            authorization: null,
+            body: null,
+            cookies: [],
+            headers: [],
+            name: "UNNAMED",
+            params: [],
+            query: [],
+            responses: [],
+        };
+    }
+
+    private resolveTypeReferenceNode(ref: ts.TypeReferenceNode): IResolvedReference | null {
+        return this.resolveReference(
+            this.lookupEntity(ref.typeName),
+            RoutesFrontend.showEntityName(ref.typeName),
+            ref.typeArguments,
+            false,
+        );
+    }
+
+    private methodFromNameString(
+        s: string,
+    ): Pick<IStandardRouteMethod, "customMethod" | "method"> | Pick<ICustomRouteMethod, "customMethod" | "method"> {
+        if ((STANDARD_METHODS as string[]).includes(s)) {
+            return { customMethod: false, method: s as StandardMethod };
+        }
+        if (this.options.customMethods.includes(s)) {
+            return { customMethod: true, method: s };
+        }
+        throw new Error(`Invalid HTTP method: ${s}`);
+    }
+
+    /**
+     * Check the params of a method against the placeholders (/todo/:id) of its full route path. Missing
+     * params are inferred as string if requested.
+     */
+    private checkParams(routePath: string, params: IExportedRouteMethod["params"], node: ts.Node): void {
+        const placeholders: string[] = [];
+        const placeholderPattern = /:([A-Za-z0-9_]+)/g;
+        for (let m = placeholderPattern.exec(routePath); m !== null; m = placeholderPattern.exec(routePath)) {
+            placeholders.push(m[1]);
+        }
+        for (const placeholder of placeholders) {
+            if (params.some((param) => param.name === placeholder)) {
+                continue;
+            }
+            if (this.options.inferParams) {
+                params.push({
+                    documentation: null,
+                    name: placeholder,
+                    type: { documentation: null, name: null, strings: "all" },
+                });
+            } else {
+                this.warn(`Route placeholder :${placeholder} is not declared as param`, node);
+            }
+        }
+        for (const param of params) {
+            if (!placeholders.includes(param.name)) {
+                this.warn(`Param ${param.name} does not appear in route ${routePath}`, node);
+            } else if (!isPrimitiveType(param.type)) {
+                this.warn(`Param ${param.name} can not be encoded in a URL`, node);
+            }
+        }
+    }
+
+    private findMethodsOnMembers(members: ReadonlyArray<ts.TypeElement>, routePath: string): IExportedRouteMethod[] {
+        const result: IExportedRouteMethod[] = [];
+        for (const member of members) {
+            if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
+                continue;
+            }
+            const { type } = member as ts.PropertySignature;
+            const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
+            if (nameString === null || type === undefined) {
+                continue;
+            }
+            const method = this.tryItem(nameString, member, (): IExportedRouteMethod => {
+                const {
+                    authorization,
+                    body,
+                    cookies,
+                    headers,
+                    name,
+                    params,
+                    query,
+                    responses,
+                } = this.findMethodCallInfo(type);
+                this.checkParams(routePath, params, member);
+                return {
+                    ...RoutesFrontend.getDocumentation(member),
+                    authorization,
+                    body,
+                    cookies,
+                    headers,
+                    ...this.methodFromNameString(nameString),
+                    name,
+                    params,
+                    query,
+                    responses,
+                    source: RoutesFrontend.getSourceLocation(member),
+                };
+            });
+            if (method !== null) {
+                result.push(method);
+            }
+        }
+        return result;
+    }
+
+    private findMethods(node: ts.Node, routePath: string): IExportedRouteMethod[] {
+        switch (node.kind) {
+            case ts.SyntaxKind.TypeAliasDeclaration: {
+                const { type } = node as ts.TypeAliasDeclaration;
+                return this.findMethods(type, routePath);
+            }
+            case ts.SyntaxKind.InterfaceDeclaration: {
+                const members = this.getMergedMembers(node as ts.InterfaceDeclaration);
+                return this.findMethodsOnMembers(members, routePath);
+            }
+            case ts.SyntaxKind.TypeReference: {
+                const r = this.resolveTypeReferenceNode(node as ts.TypeReferenceNode);
+                if (r === null) {
+                    return [];
+                }
+                return this.inScopeOf(r, (target) => this.findMethods(target, routePath));
+            }
+            case ts.SyntaxKind.TypeLiteral: {
+                const { members } = node as ts.TypeLiteralNode;
+                return this.findMethodsOnMembers(members, routePath);
+            }
+            default:
+                return [];
+        }
+    }
+
+    private static getMemberName(member: { name: ts.PropertyName }): string | null {
+        const { name } = member;
+        switch (name.kind) {
+            case ts.SyntaxKind.Identifier:
+                return RoutesFrontend.getIdentifierName(name as ts.Identifier);
+            case ts.SyntaxKind.StringLiteral:
+                return (name as ts.StringLiteral).text;
+            case ts.SyntaxKind.NumericLiteral:
+                return (name as ts.NumericLiteral).text;
+            case ts.SyntaxKind.ComputedPropertyName:
+                throw new Error("Can not process a computed property name as route name");
+        }
+        return null;
+    }
+
+    private findRoutes(members: ReadonlyArray<ts.TypeElement>, base: string): IExportedRoute[] {
+        const result: IExportedRoute[] = [];
+        for (const member of members) {
+            if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
+                continue;
+            }
+            const { type } = member as ts.PropertySignature;
+            const routeName = ts.isStringLiteral(member.name) ? member.name.text : member.name.getText();
+            const route = this.tryItem(routeName, member, (): IExportedRoute | null => {
+                const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
+                if (nameString === null || type === undefined) {
+                    return null;
+                }
+                return {
+                    ...RoutesFrontend.getDocumentation(member),
+                    methods: this.findMethods(type, path.posix.join(base, nameString)),
+                    route: nameString,
+                    source: RoutesFrontend.getSourceLocation(member),
+                };
+            });
+            if (route !== null) {
+                result.push(route);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Process all declarations of a source file marked as router.
+     */
+    public processSourceFile(sourceFile: ts.SourceFile): IExportedRouter[] {
+        const routers: IExportedRouter[] = [];
+        sourceFile.forEachChild((node: ts.Node) => {
+            const doc = RoutesFrontend.getDocumentation(node);
+            const base = RoutesFrontend.getRouterBase(doc, this.options.marker);
+            if (base === null) {
+                return;
+            }
+            const name = ts.getNameOfDeclaration(node as ts.Declaration);
+            const tags = ts.getJSDocTags(node).map((tag) => tag.tagName.text);
+            if (!matchesRouterFilter(this.options.filter, name !== undefined ? name.getText() : base, base, tags)) {
+                return;
+            }
+            const router = this.processRouter(doc, base, node);
+            if (router !== null) {
+                routers.push(router);
+            }
+        });
+        return routers;
+    }
+
+    /**
+     * Process a declaration marked as router. Type parameters of the declaration are bound to their defaults.
+     */
+    public processRouter(doc: IDocumented, base: string, node: ts.Node): IExportedRouter | null {
+        const name = ts.getNameOfDeclaration(node as ts.Declaration);
+        const router = this.tryItem(name !== undefined ? name.getText() : base, node, () => this.withScope(
+            this.bindTypeArguments(node, []),
+            () => this.processRouterNode(doc, base, null, node),
+        ));
+        return router !== null ? { ...router, source: RoutesFrontend.getSourceLocation(node) } : null;
+    }
+
+    private processRouterNode(
+        doc: IDocumented,
+        base: string,
+        parentName: string | null,
+        node: ts.Node,
+    ): IExportedRouter | null {
+        switch (node.kind) {
+            case ts.SyntaxKind.TypeAliasDeclaration: {
+                const { name, type } = node as ts.TypeAliasDeclaration;
+                return this.processRouterNode(doc, base, parentName !== null
+                    ? parentName
+                    : RoutesFrontend.getIdentifierName(name), type);
+            }
+            case ts.SyntaxKind.TypeReference: {
+                const r = this.resolveTypeReferenceNode(node as ts.TypeReferenceNode);
+                if (r === null) {
+                    return null;
+                }
+                return this.inScopeOf(r, (target) => this.processRouterNode(
+                    doc,
+                    base,
+                    parentName !== null ? parentName : r.name,
+                    target,
+                ));
+            }
+            case ts.SyntaxKind.InterfaceDeclaration: {
+                const { name } = node as ts.InterfaceDeclaration;
+                const members = this.getMergedMembers(node as ts.InterfaceDeclaration);
+                const routes: IExportedRoute[] = this.findRoutes(members, base);
+                if (routes.length === 0) {
+                    return null;
+                }
+                return {
+                    ...doc,
+                    name: parentName !== null ? parentName : RoutesFrontend.getIdentifierName(name),
+                    routeBase: base,
+                    routes,
+                };
+            }
+            case ts.SyntaxKind.TypeLiteral: {
+                const { members } = node as ts.TypeLiteralNode;
+                const routes: IExportedRoute[] = this.findRoutes(members, base);
+                if (routes.length === 0) {
+                    return null;
+                }
+                return {
+                    ...doc,
+                    name: parentName !== null ? parentName : base,
+                    routeBase: base,
+                    routes,
+                };
+            }
+            default:
+                return null;
+        }
+    }
+}
+
+/**
+ * Property signatures of interfaces and type literals as well as public, non-static properties of classes.
+ */
+function isPublicProperty(member: ts.Node): member is ts.PropertySignature | ts.PropertyDeclaration {
+    if (member.kind === ts.SyntaxKind.PropertySignature) {
+        return true;
+    }
+    if (member.kind !== ts.SyntaxKind.PropertyDeclaration) {
+        return false;
+    }
+    const modifiers = member.modifiers !== undefined ? member.modifiers : [];
+    return !modifiers.some((modifier) =>
+        modifier.kind === ts.SyntaxKind.StaticKeyword
+        || modifier.kind === ts.SyntaxKind.PrivateKeyword
+        || modifier.kind === ts.SyntaxKind.ProtectedKeyword,
+    );
+}
+
+/**
+ * The name of a declaration qualified by the namespaces it is declared in (e.g. Api.IError).
+ */
+function getQualifiedDeclarationName(declaration: ts.Node): string | null {
+    const name = ts.getNameOfDeclaration(declaration as ts.Declaration);
+    if (name === undefined || !ts.isIdentifier(name)) {
+        return null;
+    }
+    let result = RoutesFrontend.getIdentifierName(name);
+    for (let parent = declaration.parent; parent !== undefined; parent = parent.parent) {
+        // tslint:disable-next-line no-bitwise
+        const isGlobal = (parent.flags & ts.NodeFlags.GlobalAugmentation) !== 0;
+        if (ts.isModuleDeclaration(parent) && ts.isIdentifier(parent.name) && !isGlobal) {
+            result = `${RoutesFrontend.getIdentifierName(parent.name)}.${result}`;
+        }
+    }
+    return result;
+}
+
+function isTypeDeclaration(declaration: ts.Declaration): boolean {
+    switch (declaration.kind) {
+        case ts.SyntaxKind.InterfaceDeclaration:
+        case ts.SyntaxKind.TypeAliasDeclaration:
+        case ts.SyntaxKind.EnumDeclaration:
+        case ts.SyntaxKind.ClassDeclaration:
+            return true;
+        default:
+            return false;
+    }
+}
+
+function getTypeParameters(declaration: ts.Node): ReadonlyArray<ts.TypeParameterDeclaration> {
+    switch (declaration.kind) {
+        case ts.SyntaxKind.TypeAliasDeclaration:
+        case ts.SyntaxKind.InterfaceDeclaration:
+        case ts.SyntaxKind.ClassDeclaration: {
+            const { typeParameters } = declaration as ts.DeclarationWithTypeParameterChildren;
+            return typeParameters !== undefined ? typeParameters : [];
+        }
+        default:
+            return [];
+    }
+}
@@ -1,4 +1,3 @@
-import { stringify } from "circular-json";
 import * as ts from "typescript";
 
 export default class TypeParseFailure extends Error {
@@ -10,6 +9,7 @@ export default class TypeParseFailure extends Error {
             file,
         );
         if (error instanceof TypeParseFailure) {
+            result.node = error.node;
             result.failureOn = error.failureOn;
             result.unknownError = error.unknownError;
             result.description = error.description;
@@ -17,6 +17,7 @@ export default class TypeParseFailure extends Error {
             result.updateMessage();
             return result;
         }
+        result.node = type;
         result.unknownError = error;
         result.description = error.message;
         result.in.push(typeDesc);
@@ -25,6 +26,7 @@ export default class TypeParseFailure extends Error {
     }
     public static badType(type: ts.Node, file: ts.SourceFile): TypeParseFailure {
         const result = new TypeParseFailure();
+        result.node = type;
         result.failureOn = ts.createPrinter().printNode(
             ts.EmitHint.Unspecified,
             type,
@@ -36,7 +38,8 @@ export default class TypeParseFailure extends Error {
     }
     public static unhandledType(type: ts.Node, file: ts.SourceFile): TypeParseFailure {
         const result = new TypeParseFailure();
-        result.failureOn = stringify(type, undefined, 4) + ": " + ts.createPrinter().printNode(
+        result.node = type;
+        result.failureOn = ts.SyntaxKind[type.kind] + ": " + ts.createPrinter().printNode(
             ts.EmitHint.Unspecified,
             type,
             file,
@@ -45,12 +48,15 @@ export default class TypeParseFailure extends Error {
         result.updateMessage();
         return result;
     }
+    // the innermost node the failure was found on
+    public node: ts.Node | null;
     private failureOn: string | null;
     private unknownError: Error | null;
     private description: string | null;
     private in: string[];
     private constructor() {
         super();
+        this.node = null;
         this.failureOn = null;
         this.unknownError = null;
         this.description = null;
@@ -59,6 +65,15 @@ export default class TypeParseFailure extends Error {
     public toString(): string {
         return this.message;
     }
+    /**
+     * A single line description of the failure (without the types it was nested in).
+     */
+    public summary(): string {
+        if (this.failureOn === null) {
+            return this.description || "Unknown failure";
+        }
+        return `${this.description}: ${this.failureOn}`;
+    }
     private updateMessage(): void {
         this.message = `${this.description}
     on ${this.failureOn || "null"}
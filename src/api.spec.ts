@@ -0,0 +1,26 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { extractRouters, readTsConfig, render, RenderFormat } from "./api";
+
+const root = path.join(__dirname, "..");
+const example = path.join(root, "src", "example.ts");
+const { routers, diagnostics } = extractRouters(ts.createProgram([example], readTsConfig(root).options));
+
+test("routers are extracted from a program", () => {
+    expect(diagnostics).toEqual([]);
+    expect(routers.map((router) => router.name)).toEqual(["ITodoRoutes"]);
+});
+
+test("outputs are rendered without writing them", () => {
+    expect(render(routers, "markdown")).toEqual({ "routes.md": fs.readFileSync(path.join(root, "example.md"), "utf8") });
+    const openApi = render(routers, "openapi", { fileName: "example.openapi.yaml" });
+    expect(openApi["example.openapi.yaml"]).toBe(fs.readFileSync(path.join(root, "example.openapi.yaml"), "utf8"));
+    expect(Object.keys(render(routers, "markdown-routers"))).toEqual(["ITodoRoutes.md"]);
+    expect(Object.keys(render(routers, "html"))).toContain("types.html");
+});
+
+test("bad input is reported as an error", () => {
+    expect(() => extractRouters(path.join(root, "missing"))).toThrow("No such file: ");
+    expect(() => render(routers, "pdf" as RenderFormat)).toThrow("Unknown format: pdf");
+});
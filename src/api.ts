@@ -0,0 +1,160 @@
+import * as path from "path";
+import * as ts from "typescript";
+import { printClient } from "./client";
+import { IDiagnostic } from "./Diagnostics";
+import { printRoutersDump } from "./dump";
+import { NO_ROUTER_FILTER } from "./filters";
+import { printHtmlSite } from "./html";
+import { printJsonSchemas } from "./jsonschema";
+import { DEFAULT_OPENAPI_OPTIONS, IOpenApiOptions, openApiFormatFromFileName, printOpenApi } from "./openapi";
+import { IMarkdownOptions, printMarkdown, printMarkdownFull } from "./printer";
+import RoutesFrontend, { DEFAULT_MARKER, IFrontendOptions } from "./RoutesFrontend";
+import { findNameClashes } from "./schema";
+import { printServer } from "./server";
+import { IExportedRouter } from "./types";
+import { printValidators } from "./validators";
+
+export interface IExtractResult {
+    routers: IExportedRouter[];
+    // problems with single routers, routes or methods, which were skipped
+    diagnostics: IDiagnostic[];
+}
+
+// "markdown" is a single document, "markdown-routers" a document per router
+export type RenderFormat = "markdown"
+    | "markdown-routers"
+    | "openapi"
+    | "jsonschema"
+    | "html"
+    | "json"
+    | "client"
+    | "server"
+    | "validators";
+
+export const RENDER_FORMATS: RenderFormat[] = [
+    "markdown",
+    "markdown-routers",
+    "openapi",
+    "jsonschema",
+    "html",
+    "json",
+    "client",
+    "server",
+    "validators",
+];
+
+// formats rendering several files, which are written to a directory
+export const DIRECTORY_FORMATS: RenderFormat[] = ["markdown-routers", "jsonschema", "html"];
+
+export interface IRenderOptions extends IMarkdownOptions, IOpenApiOptions {
+    // name of the file for formats with a single file, e.g. its extension picks JSON or YAML for OpenAPI
+    fileName: string | null;
+}
+
+const DEFAULT_FRONTEND_OPTIONS: IFrontendOptions = {
+    customMethods: [],
+    filter: NO_ROUTER_FILTER,
+    inferParams: false,
+    marker: DEFAULT_MARKER,
+};
+
+const DEFAULT_RENDER_OPTIONS: IRenderOptions = {
+    ...DEFAULT_OPENAPI_OPTIONS,
+    fileName: null,
+    inlineThreshold: 0,
+    sharedTypes: false,
+};
+
+// file names used if no file name is given for a format with a single file
+const DEFAULT_FILE_NAMES: { [format: string]: string } = {
+    client: "client.ts",
+    json: "routes.json",
+    markdown: "routes.md",
+    openapi: "openapi.yaml",
+    server: "server.ts",
+    validators: "validators.js",
+};
+
+/**
+ * Read the compiler options and input files from a tsconfig.json (or a directory containing one).
+ */
+export function readTsConfig(configPath: string): { options: ts.CompilerOptions, fileNames: string[] } {
+    const fileName = ts.sys.directoryExists(configPath) ? path.join(configPath, "tsconfig.json") : configPath;
+    if (!ts.sys.fileExists(fileName)) {
+        throw new Error(`No such file: ${fileName}`);
+    }
+    const json = ts.parseJsonText(fileName, ts.sys.readFile(fileName) || "");
+    const config = ts.parseJsonSourceFileConfigFileContent(json, ts.sys, path.dirname(fileName));
+    return { fileNames: config.fileNames, options: config.options };
+}
+
+/**
+ * Extract the routers declared in the given files, which default to the root files of the program (or
+ * the files included by the tsconfig.json). Routers which can not be processed are reported as
+ * diagnostics instead of failing the whole extraction.
+ */
+export function extractRouters(
+    input: ts.Program | string,
+    files?: string[],
+    options: IFrontendOptions = DEFAULT_FRONTEND_OPTIONS,
+): IExtractResult {
+    let program: ts.Program;
+    if (typeof input === "string") {
+        const config = readTsConfig(input);
+        const rootNames = files === undefined ? config.fileNames : config.fileNames.concat(files);
+        program = ts.createProgram(rootNames.filter((file, index) => rootNames.indexOf(file) === index),
+            config.options);
+    } else {
+        program = input;
+    }
+    const frontend = new RoutesFrontend(program, options);
+    const routers: IExportedRouter[] = [];
+    for (const fileName of files === undefined ? program.getRootFileNames() : files) {
+        const sourceFile = program.getSourceFile(fileName);
+        if (sourceFile !== undefined) {
+            routers.push(...frontend.processSourceFile(sourceFile));
+        }
+    }
+    return { diagnostics: [...frontend.diagnostics.all(), ...findNameClashes(routers)], routers };
+}
+
+/**
+ * Render the routers in one of the output formats. The files are returned by their name, formats with
+ * several files (e.g. html) use names relative to their output directory.
+ */
+export function render(
+    routers: IExportedRouter[],
+    format: RenderFormat,
+    options: Partial<IRenderOptions> = {},
+): { [fileName: string]: string } {
+    const opts: IRenderOptions = { ...DEFAULT_RENDER_OPTIONS, ...options };
+    const fileName = opts.fileName !== null ? opts.fileName : DEFAULT_FILE_NAMES[format];
+    switch (format) {
+        case "markdown":
+            return { [fileName]: printMarkdownFull(routers, opts) };
+        case "markdown-routers": {
+            const files: { [fileName: string]: string } = {};
+            for (const router of routers) {
+                files[router.name + ".md"] = printMarkdown(router, true, opts);
+            }
+            return files;
+        }
+        case "openapi":
+            return { [fileName]: printOpenApi(routers, openApiFormatFromFileName(fileName), opts) };
+        case "jsonschema":
+            return printJsonSchemas(routers);
+        case "html":
+            return printHtmlSite(routers);
+        case "json":
+            // source file names are written relative to the dump
+            return { [fileName]: printRoutersDump(routers, path.dirname(path.resolve(fileName))) };
+        case "client":
+            return { [fileName]: printClient(routers) };
+        case "server":
+            return { [fileName]: printServer(routers) };
+        case "validators":
+            return { [fileName]: printValidators(routers) };
+        default:
+            throw new Error(`Unknown format: ${format}`);
+    }
+}
@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import { printClient } from "./client";
+import { ClientFetch, IClientRequestInit, ITodoRoutesClient } from "./example.client";
+import { IExportedRouter, Type } from "./types";
+
+function fakeFetch(status: number, body: string, calls: Array<[string, IClientRequestInit]>): ClientFetch {
+    return async (url, init) => {
+        calls.push([url, init]);
+        return {
+            headers: { get: (name: string) => name === "Location" ? "/todo/1" : null },
+            status,
+            text: async () => body,
+        };
+    };
+}
+
+test("requests are built from params, query and body", async () => {
+    const calls: Array<[string, IClientRequestInit]> = [];
+    const client = new ITodoRoutesClient("http://localhost/", fakeFetch(200, "{\"id\":1}", calls));
+    const result = await client.getTaskByID({ params: { id: 1 }, query: { ifNotDue: true } });
+    expect(calls[0][0]).toBe("http://localhost/todo/1?ifNotDue=true");
+    expect(calls[0][1].method).toBe("GET");
+    expect(result).toEqual({ body: { id: 1 }, status: 200 });
+});
+
+test("responses carry the declared headers", async () => {
+    const calls: Array<[string, IClientRequestInit]> = [];
+    const client = new ITodoRoutesClient("http://localhost", fakeFetch(201, "1", calls));
+    const result = await client.createTask({
+        authorization: "token",
+        body: { created: "2019-01-01T00:00:00Z", due: null, item: "test", status: "open" },
+    });
+    expect(calls[0][1].headers).toEqual({ "Authorization": "token", "Content-Type": "application/json" });
+    expect(result).toEqual({ body: 1, headers: { Location: "/todo/1" }, status: 201 });
+});
+
+test("undeclared status codes are rejected", async () => {
+    const client = new ITodoRoutesClient("http://localhost", fakeFetch(500, "", []));
+    await expect(client.listAllTasks()).rejects.toThrow("Unexpected response status 500");
+});
+
+test("types which are no identifiers are declared and referenced by an identifier", () => {
+    const node: Type = {
+        documentation: null,
+        name: "Api.INode",
+        objectMembers: { children: { arrayMembers: { reference: "Api.INode" }, documentation: null, name: null } },
+    };
+    const code: Type = { documentation: null, name: "ICode<\"a-b\">", strings: ["a-b"] };
+    const routers: IExportedRouter[] = [{
+        documentation: null,
+        name: "IRoutes",
+        routeBase: "/",
+        routes: [{
+            documentation: null,
+            methods: [{
+                authorization: null,
+                body: { documentation: null, type: code },
+                cookies: [],
+                customMethod: false,
+                documentation: null,
+                headers: [],
+                method: "POST",
+                name: "getTree",
+                params: [],
+                query: [],
+                responses: [{ body: node, documentation: null, headers: [], status: 200 }],
+            }],
+            route: "/tree",
+        }],
+    }];
+    const source = printClient(routers);
+    expect(source).toContain("export type Api_INode = {\n    children: Api_INode[];\n};");
+    expect(source).toContain("export type ICode_a_b = \"a-b\";");
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "docroutes-"));
+    const fileName = path.join(directory, "client.ts");
+    try {
+        fs.writeFileSync(fileName, source);
+        const program = ts.createProgram([fileName], {
+            noEmit: true,
+            strict: true,
+            target: ts.ScriptTarget.ES2017,
+            types: [],
+        });
+        expect(ts.getPreEmitDiagnostics(program).map((diagnostic) => diagnostic.messageText)).toEqual([]);
+    } finally {
+        fs.unlinkSync(fileName);
+        fs.rmdirSync(directory);
+    }
+});
@@ -0,0 +1,273 @@
+import * as path from "path";
+import { uniqueIdentifier } from "./identifiers";
+import { collectNamedTypes, schemaName } from "./schema";
+import { stripUndefined } from "./typeOperations";
+import { IExportedRouteMethod, IExportedRouter } from "./types";
+import {
+    getTypeIdentifiers,
+    ITypeIdentifiers,
+    printDocComment,
+    printPropertyName,
+    printTypeScriptDeclarations,
+    printTypeScriptParams,
+    printTypeScriptType,
+} from "./typescript";
+
+const INDENT = "    ";
+
+// helpers are only emitted if a method uses them, otherwise noUnusedLocals would complain
+const HELPERS: { [name: string]: string } = {
+    buildCookies: `function buildCookies(cookies: { [name: string]: unknown }): string {
+    return Object.keys(cookies)
+        .filter((name) => cookies[name] !== undefined)
+        .map((name) => encodeURIComponent(name) + "=" + encodeURIComponent(String(cookies[name])))
+        .join("; ");
+}
+`,
+    buildHeaders: `function buildHeaders(headers: { [name: string]: unknown }): { [name: string]: string } {
+    const result: { [name: string]: string } = {};
+    for (const name of Object.keys(headers)) {
+        if (headers[name] !== undefined) {
+            result[name] = String(headers[name]);
+        }
+    }
+    return result;
+}
+`,
+    buildQuery: `function buildQuery(query: { [name: string]: unknown }): string {
+    const parts: string[] = [];
+    for (const name of Object.keys(query)) {
+        const value = query[name];
+        if (value === undefined) {
+            continue;
+        }
+        for (const item of Array.isArray(value) ? value : [value]) {
+            const text = typeof item === "object" && item !== null ? JSON.stringify(item) : String(item);
+            parts.push(encodeURIComponent(name) + "=" + encodeURIComponent(text));
+        }
+    }
+    return parts.length > 0 ? "?" + parts.join("&") : "";
+}
+`,
+    readBody: `async function readBody(response: IClientResponse): Promise<any> {
+    const text = await response.text();
+    return text === "" ? undefined : JSON.parse(text);
+}
+`,
+};
+
+const PRELUDE = `/**
+ * The subset of the fetch API the clients use, so they work with window.fetch as well as node-fetch.
+ */
+export interface IClientRequestInit {
+    method: string;
+    headers: { [name: string]: string };
+    body?: string;
+}
+
+export interface IClientResponse {
+    status: number;
+    headers: { get(name: string): string | null };
+    text(): Promise<string>;
+}
+
+export type ClientFetch = (url: string, init: IClientRequestInit) => Promise<IClientResponse>;
+`;
+
+/**
+ * Generate a TypeScript module with a client class for every router. Every method of a router becomes an
+ * async method of the class (named after the name of the method), taking the params, query, headers,
+ * cookies, body and authorization of the request and returning the response as a union discriminated by
+ * the status code. The fetch implementation is passed to the constructor.
+ */
+export function printClient(routers: IExportedRouter[]): string {
+    const usedHelpers: string[] = [];
+    const namedTypes = collectNamedTypes(routers);
+    const identifiers = getTypeIdentifiers(namedTypes);
+    const classes = routers.map((router) => printClientClass(router, identifiers, usedHelpers));
+    const declarations = printTypeScriptDeclarations(namedTypes, identifiers);
+    return [
+        "// This file was generated by docroutes, do not edit it by hand.\n/* tslint:disable */\n",
+        PRELUDE,
+        ...Object.keys(HELPERS).filter((name) => usedHelpers.includes(name)).map((name) => HELPERS[name]),
+        ...(declarations !== "" ? [declarations] : []),
+        ...classes,
+    ].join("\n");
+}
+
+function printClientClass(router: IExportedRouter, identifiers: ITypeIdentifiers, usedHelpers: string[]): string {
+    const methodNames: string[] = [];
+    const methods: string[] = [];
+    for (const route of router.routes) {
+        for (const method of route.methods) {
+            const methodName = uniqueIdentifier(method.name, methodNames);
+            methodNames.push(methodName);
+            methods.push(printClientMethod(
+                methodName,
+                path.posix.join(router.routeBase, route.route),
+                method,
+                identifiers,
+                usedHelpers,
+            ));
+        }
+    }
+    return printDocComment(router.documentation, "", router)
+        + `export class ${schemaName(router.name)}Client {
+    private readonly baseUrl: string;
+    private readonly fetch: ClientFetch;
+
+    public constructor(baseUrl: string, fetch: ClientFetch) {
+        this.baseUrl = baseUrl.replace(/\\/+$/, "");
+        this.fetch = fetch;
+    }
+${methods.map((method) => "\n" + method).join("")}}
+`;
+}
+
+function printClientMethod(
+    methodName: string,
+    routePath: string,
+    method: IExportedRouteMethod,
+    identifiers: ITypeIdentifiers,
+    usedHelpers: string[],
+): string {
+    const indent = INDENT + INDENT;
+    const requestMembers: Array<[string, boolean, string]> = [];
+    const headers: string[] = [];
+    if (method.params.length > 0) {
+        requestMembers.push(["params", true, printTypeScriptParams(method.params.map((param) => ({
+            ...param,
+            required: true,
+        })), identifiers, indent)]);
+    }
+    if (method.query.length > 0) {
+        const required = method.query.some((param) => param.required);
+        requestMembers.push(["query", required, printTypeScriptParams(method.query, identifiers, indent)]);
+    }
+    if (method.headers.length > 0) {
+        const required = method.headers.some((param) => param.required);
+        requestMembers.push(["headers", required, printTypeScriptParams(method.headers, identifiers, indent)]);
+        headers.push(`...buildHeaders(request.headers${required ? "" : " || {}"}),`);
+        addHelper(usedHelpers, "buildHeaders");
+    }
+    if (method.cookies.length > 0) {
+        const required = method.cookies.some((param) => param.required);
+        requestMembers.push(["cookies", required, printTypeScriptParams(method.cookies, identifiers, indent)]);
+        headers.push(`"Cookie": buildCookies(request.cookies${required ? "" : " || {}"}),`);
+        addHelper(usedHelpers, "buildCookies");
+    }
+    if (method.authorization !== null) {
+        const authorization = printTypeScriptType(method.authorization.type, identifiers, indent);
+        requestMembers.push(["authorization", true, authorization]);
+        headers.push(`"Authorization": String(request.authorization),`);
+    }
+    if (method.body !== null) {
+        const [bodyType, optional] = stripUndefined(method.body.type);
+        requestMembers.push(["body", !optional, printTypeScriptType(bodyType, identifiers, indent)]);
+        headers.push(`"Content-Type": "application/json",`);
+    }
+    const requestRequired = requestMembers.some(([, required]) => required);
+    const requestType = requestMembers.length === 0
+        ? "{}"
+        : `{\n${requestMembers.map(([name, required, type]) =>
+            `${indent}${name}${required ? "" : "?"}: ${type};\n`).join("")}${INDENT}}`;
+
+    let url = printUrl(routePath, method);
+    if (method.query.length > 0) {
+        const query = method.query.some((param) => param.required) ? "request.query" : "request.query || {}";
+        url += ` + buildQuery(${query})`;
+        addHelper(usedHelpers, "buildQuery");
+    }
+
+    const results: string[] = [];
+    const cases: string[] = [];
+    for (const response of method.responses) {
+        const resultMembers: string[] = [`status: ${response.status}`];
+        const values: string[] = [];
+        if (response.body === null) {
+            resultMembers.push("body: undefined");
+            values.push("body: undefined");
+        } else {
+            resultMembers.push(`body: ${printTypeScriptType(response.body, identifiers, indent)}`);
+            values.push("body: await readBody(response)");
+            addHelper(usedHelpers, "readBody");
+        }
+        if (response.headers.length > 0) {
+            const headerNames = response.headers.map((header) => printPropertyName(header.name));
+            resultMembers.push(`headers: { ${headerNames.map((name) => `${name}: string | null`).join("; ")} }`);
+            values.push(`headers: { ${response.headers.map((header, index) =>
+                `${headerNames[index]}: response.headers.get(${JSON.stringify(header.name)})`).join(", ")} }`);
+        }
+        values.push(`status: ${response.status}`);
+        results.push(`${indent}| { ${resultMembers.join("; ")} }\n`);
+        cases.push(`${indent}${INDENT}case ${response.status}:\n`
+            + `${indent}${INDENT}${INDENT}return { ${values.join(", ")} };\n`);
+    }
+    let resultType: string;
+    let handleResponse: string;
+    if (method.responses.length === 0) {
+        resultType = "{ status: number; body: unknown }";
+        handleResponse = `${indent}return { body: await readBody(response), status: response.status };\n`;
+        addHelper(usedHelpers, "readBody");
+    } else {
+        resultType = `\n${results.join("")}${INDENT}`;
+        const error = `\`Unexpected response status \${response.status} for ${method.method} \${url}\``;
+        handleResponse = `${indent}switch (response.status) {\n${cases.join("")}${indent}}\n`
+            + `${indent}throw new Error(${error});\n`;
+    }
+
+    const doc = [`${method.method} ${routePath}`];
+    if (method.documentation !== null) {
+        doc.push("", method.documentation);
+    }
+    const headerLines = headers.map((header) => `${indent}${INDENT}${INDENT}${header}\n`);
+    const init = headers.length === 0
+        ? ["headers: {},"]
+        : [`headers: {\n${headerLines.join("")}${indent}${INDENT}},`];
+    if (method.body !== null) {
+        init.unshift("body: JSON.stringify(request.body),");
+    }
+    init.push(`method: ${JSON.stringify(method.method)},`);
+    const parameter = requestMembers.length === 0
+        ? ""
+        : `request: ${requestType}${requestRequired ? "" : " = {}"}`;
+    return printDocComment(doc.join("\n"), INDENT, method)
+        + `${INDENT}public async ${methodName}(${parameter}): Promise<${resultType}> {
+${indent}const url = ${url};
+${indent}const response = await this.fetch(url, {
+${init.map((line) => `${indent}${INDENT}${line}\n`).join("")}${indent}});
+${handleResponse}${INDENT}}
+`;
+}
+
+/**
+ * Build an expression for the URL of a route, replacing placeholders (/todo/:id) by the params.
+ */
+function printUrl(routePath: string, method: IExportedRouteMethod): string {
+    const parts: string[] = ["this.baseUrl"];
+    let rest = routePath;
+    const placeholderPattern = /:([A-Za-z0-9_]+)/;
+    for (let m = placeholderPattern.exec(rest); m !== null; m = placeholderPattern.exec(rest)) {
+        const name = m[1];
+        const prefix = rest.slice(0, m.index);
+        if (!method.params.some((param) => param.name === name)) {
+            parts.push(JSON.stringify(prefix + m[0]));
+        } else {
+            if (prefix !== "") {
+                parts.push(JSON.stringify(prefix));
+            }
+            parts.push(`encodeURIComponent(String(request.params.${name}))`);
+        }
+        rest = rest.slice(m.index + m[0].length);
+    }
+    if (rest !== "") {
+        parts.push(JSON.stringify(rest));
+    }
+    return parts.join(" + ");
+}
+
+function addHelper(usedHelpers: string[], name: string): void {
+    if (!usedHelpers.includes(name)) {
+        usedHelpers.push(name);
+    }
+}
@@ -0,0 +1,79 @@
+import * as path from "path";
+import { parseConfigFile } from "./configFile";
+
+const fileName = path.join(path.sep, "project", "docroutes.config.json");
+
+test("paths are relative to the config file", () => {
+    const config = parseConfigFile(JSON.stringify({
+        exclude: ["src/generated", "**/*.spec.ts"],
+        excludeTags: ["internal"],
+        inputs: ["src"],
+        marker: "PublicRoute",
+        methods: ["propfind"],
+        outputs: [
+            { format: "markdown", path: "docs/api.md", sharedTypes: true },
+            { format: "html", inlineThreshold: 2, path: "docs/site" },
+            { format: "openapi", path: "docs/openapi.yaml", title: "Todo API", version: "1.2.0" },
+        ],
+        strict: true,
+        tsconfig: ".",
+    }), fileName);
+    expect(config).toEqual({
+        checkUnchanged: null,
+        exclude: [
+            path.join(path.sep, "project", "src", "generated"),
+            path.join(path.sep, "project", "**", "*.spec.ts"),
+        ],
+        filter: { excludeTags: ["internal"], names: [], routeBases: [], tags: [] },
+        include: null,
+        inferParams: null,
+        inputs: [path.join(path.sep, "project", "src")],
+        marker: "PublicRoute",
+        methods: ["PROPFIND"],
+        outputs: [
+            {
+                format: "markdown",
+                inlineThreshold: 0,
+                path: path.join(path.sep, "project", "docs", "api.md"),
+                sharedTypes: true,
+                title: "Routes",
+                version: "0.0.0",
+            },
+            {
+                format: "html",
+                inlineThreshold: 2,
+                path: path.join(path.sep, "project", "docs", "site"),
+                sharedTypes: false,
+                title: "Routes",
+                version: "0.0.0",
+            },
+            {
+                format: "openapi",
+                inlineThreshold: 0,
+                path: path.join(path.sep, "project", "docs", "openapi.yaml"),
+                sharedTypes: false,
+                title: "Todo API",
+                version: "1.2.0",
+            },
+        ],
+        strict: true,
+        tsConfig: path.join(path.sep, "project"),
+    });
+});
+
+test("invalid settings are named in the error", () => {
+    const parse = (config: unknown) => () => parseConfigFile(JSON.stringify(config), fileName);
+    expect(() => parseConfigFile("{", fileName)).toThrow(`${fileName}: Invalid JSON`);
+    expect(parse([])).toThrow(`${fileName}: the config must be an object`);
+    expect(parse({ output: [] })).toThrow(`Unknown setting "output" in the config`);
+    expect(parse({ strict: "yes" })).toThrow(`"strict" must be true or false`);
+    expect(parse({ inputs: ["src", 1] })).toThrow(`"inputs"[1] must be a non-empty string`);
+    expect(parse({ marker: "Export Route" })).toThrow(`"marker" must be an identifier, got "Export Route"`);
+    expect(parse({ outputs: [{ format: "pdf", path: "api.pdf" }] }))
+        .toThrow(`"outputs"[0].format must be one of "markdown", "markdown-routers", `);
+    expect(parse({ outputs: [{ format: "html" }] })).toThrow(`"outputs"[0].path must be a non-empty string`);
+    expect(parse({ outputs: [{ format: "html", path: "site", theme: "dark" }] }))
+        .toThrow(`Unknown setting "theme" in "outputs"[0]`);
+    expect(parse({ outputs: [{ format: "openapi", path: "api.yaml", version: 1 }] }))
+        .toThrow(`"outputs"[0].version must be a non-empty string`);
+});
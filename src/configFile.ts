@@ -0,0 +1,155 @@
+import * as path from "path";
+import { RENDER_FORMATS, RenderFormat } from "./api";
+import { IRouterFilter } from "./filters";
+import { DEFAULT_OPENAPI_OPTIONS, IOpenApiOptions } from "./openapi";
+import { IMarkdownOptions } from "./printer";
+
+export const CONFIG_FILE_NAME = "docroutes.config.json";
+
+export const MARKER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const METHOD_PATTERN = /^[A-Z][A-Z0-9_-]*$/;
+
+export interface IOutputTarget extends IMarkdownOptions, IOpenApiOptions {
+    format: RenderFormat;
+    // absolute path of the file or, for formats with several files, of the directory
+    path: string;
+}
+
+// the settings of a config file, null if not set (paths are absolute)
+export interface IConfigFile {
+    inputs: string[] | null;
+    // glob patterns of input files to use or skip
+    include: string[] | null;
+    exclude: string[] | null;
+    filter: IRouterFilter;
+    tsConfig: string | null;
+    marker: string | null;
+    methods: string[] | null;
+    inferParams: boolean | null;
+    strict: boolean | null;
+    checkUnchanged: boolean | null;
+    outputs: IOutputTarget[] | null;
+}
+
+const CONFIG_KEYS = [
+    "checkUnchanged",
+    "exclude",
+    "excludeTags",
+    "include",
+    "inferParams",
+    "inputs",
+    "marker",
+    "methods",
+    "outputs",
+    "routeBases",
+    "routers",
+    "strict",
+    "tags",
+    "tsconfig",
+];
+
+const OUTPUT_KEYS = ["format", "inlineThreshold", "path", "sharedTypes", "title", "version"];
+
+/**
+ * Parse and validate a docroutes.config.json. Paths and patterns in the file are relative to the file.
+ * Throws an error naming the file and the offending setting if the file is invalid.
+ */
+export function parseConfigFile(text: string, fileName: string): IConfigFile {
+    const fail = (message: string): never => {
+        throw new Error(`${fileName}: ${message}`);
+    };
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        return fail(`Invalid JSON: ${error.message}`);
+    }
+    const config = expectObject(json, "the config", CONFIG_KEYS, fail);
+    const resolve = (file: string) => path.resolve(path.dirname(fileName), file);
+    const get = <T>(key: string, expect: (value: unknown, what: string) => T): T | null =>
+        config[key] !== undefined ? expect(config[key], `"${key}"`) : null;
+
+    const expectBoolean = (value: unknown, what: string) =>
+        typeof value === "boolean" ? value : fail(`${what} must be true or false`);
+    const expectString = (value: unknown, what: string) =>
+        typeof value === "string" && value.length > 0 ? value : fail(`${what} must be a non-empty string`);
+    const expectStrings = (value: unknown, what: string) => Array.isArray(value)
+        ? value.map((item, index) => expectString(item, `${what}[${index}]`))
+        : fail(`${what} must be an array of strings`);
+    const expectPaths = (value: unknown, what: string) => expectStrings(value, what).map(resolve);
+
+    const marker = get("marker", expectString);
+    if (marker !== null && !MARKER_PATTERN.test(marker)) {
+        fail(`"marker" must be an identifier, got "${marker}"`);
+    }
+    const methods = get("methods", expectStrings);
+    for (const method of methods || []) {
+        if (!METHOD_PATTERN.test(method.toUpperCase())) {
+            fail(`"methods" contains an invalid HTTP method "${method}"`);
+        }
+    }
+    const outputs = get("outputs", (value, what) => Array.isArray(value)
+        ? value.map((output, index) => {
+            const target = expectObject(output, `${what}[${index}]`, OUTPUT_KEYS, fail);
+            const format = expectString(target.format, `${what}[${index}].format`) as RenderFormat;
+            if (!RENDER_FORMATS.includes(format)) {
+                fail(`${what}[${index}].format must be one of ${RENDER_FORMATS.map((f) => `"${f}"`).join(", ")}`);
+            }
+            const inlineThreshold = target.inlineThreshold !== undefined ? target.inlineThreshold : 0;
+            if (typeof inlineThreshold !== "number" || !Number.isInteger(inlineThreshold) || inlineThreshold < 0) {
+                fail(`${what}[${index}].inlineThreshold must be a number of lines`);
+            }
+            return {
+                format,
+                inlineThreshold: inlineThreshold as number,
+                path: resolve(expectString(target.path, `${what}[${index}].path`)),
+                sharedTypes: target.sharedTypes !== undefined
+                    && expectBoolean(target.sharedTypes, `${what}[${index}].sharedTypes`),
+                title: target.title !== undefined
+                    ? expectString(target.title, `${what}[${index}].title`)
+                    : DEFAULT_OPENAPI_OPTIONS.title,
+                version: target.version !== undefined
+                    ? expectString(target.version, `${what}[${index}].version`)
+                    : DEFAULT_OPENAPI_OPTIONS.version,
+            };
+        })
+        : fail(`${what} must be an array of outputs`));
+
+    return {
+        checkUnchanged: get("checkUnchanged", expectBoolean),
+        exclude: get("exclude", expectPaths),
+        filter: {
+            excludeTags: get("excludeTags", expectStrings) || [],
+            names: get("routers", expectStrings) || [],
+            routeBases: get("routeBases", expectStrings) || [],
+            tags: get("tags", expectStrings) || [],
+        },
+        include: get("include", expectPaths),
+        inferParams: get("inferParams", expectBoolean),
+        inputs: get("inputs", expectPaths),
+        marker,
+        methods: methods !== null ? methods.map((method) => method.toUpperCase()) : null,
+        outputs,
+        strict: get("strict", expectBoolean),
+        tsConfig: get("tsconfig", (value, what) => resolve(expectString(value, what))),
+    };
+}
+
+function expectObject(
+    value: unknown,
+    what: string,
+    keys: string[],
+    fail: (message: string) => never,
+): { [key: string]: unknown } {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`${what} must be an object`);
+    }
+    const object = value as { [key: string]: unknown };
+    for (const key of Object.keys(object)) {
+        if (!keys.includes(key)) {
+            fail(`Unknown setting "${key}" in ${what}`);
+        }
+    }
+    return object;
+}
@@ -0,0 +1,137 @@
+import { diffRouters, printApiChanges } from "./diff";
+import { IExportedRouteMethod, IExportedRouter, IStandardRouteMethod, Type } from "./types";
+
+const status: Type = {
+    documentation: null,
+    name: "Status",
+    union: [
+        { documentation: null, name: null, strings: ["open"] },
+        { documentation: null, name: null, strings: ["closed"] },
+    ],
+};
+
+function method(overrides: Partial<IStandardRouteMethod>): IStandardRouteMethod {
+    return {
+        authorization: null,
+        body: null,
+        cookies: [],
+        customMethod: false,
+        documentation: null,
+        headers: [],
+        method: "GET",
+        name: "getItem",
+        params: [{ documentation: null, name: "id", type: { documentation: null, name: null, numbers: "all" } }],
+        query: [],
+        responses: [{ body: status, documentation: null, headers: [], status: 200 }],
+        ...overrides,
+    };
+}
+
+function router(route: string, methods: IExportedRouteMethod[]): IExportedRouter[] {
+    return [{
+        documentation: null,
+        name: "IRoutes",
+        routeBase: "/items",
+        routes: [{ documentation: null, methods, route }],
+    }];
+}
+
+test("unchanged APIs have no changes, even if placeholders are renamed", () => {
+    expect(diffRouters(router("/:id", [method({})]), router("/:itemId", [method({})])).changes).toEqual([]);
+});
+
+test("removed methods and statuses are breaking", () => {
+    const previous = router("/:id", [method({}), method({ method: "DELETE", name: "deleteItem" })]);
+    const current = router("/:id", [method({ responses: [] })]);
+    expect(diffRouters(previous, current).changes).toEqual([
+        { kind: "breaking", location: "DELETE /items/:id", message: "method was removed" },
+        { kind: "breaking", location: "GET /items/:id", message: "status 200 was removed" },
+    ]);
+});
+
+test("requests may accept more, responses may return less", () => {
+    const optionalQuery = { documentation: null, name: "full", required: false, type: status };
+    const previous = router("/:id", [method({ query: [optionalQuery] })]);
+    const current = router("/:id", [method({
+        query: [{ ...optionalQuery, required: true }],
+        responses: [{
+            body: { ...status, union: [...(status as { union: Type[] }).union, { null: true }] },
+            documentation: null,
+            headers: [],
+            status: 200,
+        }],
+    })]);
+    expect(diffRouters(previous, current).changes).toEqual([
+        { kind: "breaking", location: "GET /items/:id", message: "query parameter full became required" },
+        { kind: "breaking", location: "GET /items/:id", message: "response 200 body now allows null" },
+    ]);
+});
+
+test("new required members of the body are breaking", () => {
+    const body = (members: { [name: string]: Type }) => ({
+        documentation: null,
+        type: { documentation: null, name: "IItem", objectMembers: members },
+    });
+    const previous = router("/", [method({ body: body({ status }), method: "POST", params: [] })]);
+    const current = router("/", [method({
+        body: body({
+            item: { documentation: null, name: null, strings: "all" },
+            status: { ...status, union: [...(status as { union: Type[] }).union.slice(0, 1)] },
+        }),
+        method: "POST",
+        params: [],
+    })]);
+    const { changes } = diffRouters(previous, current);
+    expect(changes).toEqual([
+        { kind: "breaking", location: "POST /items", message: "body.status no longer allows \"closed\"" },
+        { kind: "breaking", location: "POST /items", message: "required body.item was added" },
+    ]);
+    expect(printApiChanges(changes)).toBe([
+        "Breaking changes:",
+        "  POST /items: body.status no longer allows \"closed\"",
+        "  POST /items: required body.item was added",
+        "",
+        "Found 2 breaking and 0 non-breaking change(s)",
+        "",
+    ].join("\n"));
+});
+
+test("added methods and statuses are not breaking", () => {
+    const current = router("/:id", [method({
+        deprecated: "",
+        responses: [
+            { body: status, documentation: null, headers: [], status: 200 },
+            { body: null, documentation: null, headers: [], status: 404 },
+        ],
+    }), method({ method: "PUT", name: "putItem" })]);
+    const { changes } = diffRouters(router("/:id", [method({})]), current);
+    expect(changes.map((change) => change.kind + ": " + change.message)).toEqual([
+        "non-breaking: method was deprecated",
+        "non-breaking: status 404 was added",
+        "non-breaking: method was added",
+    ]);
+});
+
+test("methods declared twice are reported instead of compared", () => {
+    const previous = router("/:id", [method({})]);
+    const current: IExportedRouter[] = [...router("/:id", [method({})]), {
+        documentation: null,
+        name: "IOtherRoutes",
+        routeBase: "/items/:itemId",
+        routes: [{
+            documentation: null,
+            methods: [method({ responses: [], source: { fileName: "other.ts", line: 12 } })],
+            route: "/",
+        }],
+    }];
+    const { changes, diagnostics } = diffRouters(previous, current);
+    expect(changes).toEqual([]);
+    expect(diagnostics).toEqual([{
+        column: 0,
+        fileName: "other.ts",
+        line: 12,
+        message: "Another method is already declared as GET /items/:id, only the first one is compared",
+        path: ["IOtherRoutes", "/", "GET"],
+        severity: "error",
+    }]);
+});
@@ -0,0 +1,370 @@
+import * as path from "path";
+import { IDiagnostic } from "./Diagnostics";
+import { isDateType } from "./schema";
+import { isAssignable, splitUnion, stripUndefined } from "./typeOperations";
+import { IExportedRouteMethod, IExportedRouter, IQueryParam, Type } from "./types";
+import { printTypeScriptType } from "./typescript";
+
+export type ChangeKind = "breaking" | "non-breaking";
+
+export interface IApiChange {
+    kind: ChangeKind;
+    // the method the change belongs to, e.g. GET /todo/:id
+    location: string;
+    message: string;
+}
+
+export interface IDiffResult {
+    changes: IApiChange[];
+    // methods declared twice in one version, only the first one is compared
+    diagnostics: IDiagnostic[];
+}
+
+// requests have to accept everything they accepted before, responses must not return anything new
+type Direction = "request" | "response";
+
+type Literal = string | number | boolean | null;
+
+interface IMethodEntry {
+    location: string;
+    method: IExportedRouteMethod;
+}
+
+/**
+ * Compare two versions of an API and classify every change as breaking (existing clients may fail) or
+ * non-breaking. Methods are matched by their HTTP method and path, so renaming a router, a method or a
+ * route placeholder is not a change.
+ */
+export function diffRouters(previous: IExportedRouter[], current: IExportedRouter[]): IDiffResult {
+    const diagnostics: IDiagnostic[] = [];
+    const previousMethods = collectMethods(previous, diagnostics);
+    const currentMethods = collectMethods(current, diagnostics);
+    const changes: IApiChange[] = [];
+    for (const key of Object.keys(previousMethods)) {
+        const entry = previousMethods[key];
+        if (currentMethods[key] === undefined) {
+            changes.push({ kind: "breaking", location: entry.location, message: "method was removed" });
+        }
+    }
+    for (const key of Object.keys(currentMethods)) {
+        const entry = currentMethods[key];
+        if (previousMethods[key] === undefined) {
+            changes.push({ kind: "non-breaking", location: entry.location, message: "method was added" });
+        } else {
+            changes.push(...diffMethods(previousMethods[key].method, entry.method).map(([kind, message]) => ({
+                kind,
+                location: entry.location,
+                message,
+            })));
+        }
+    }
+    return { changes, diagnostics };
+}
+
+/**
+ * Print a report of the changes, breaking changes first.
+ */
+export function printApiChanges(changes: IApiChange[]): string {
+    const breaking = changes.filter((change) => change.kind === "breaking");
+    const nonBreaking = changes.filter((change) => change.kind === "non-breaking");
+    const lines: string[] = [];
+    for (const [title, group] of [["Breaking changes:", breaking], ["Non-breaking changes:", nonBreaking]] as
+        Array<[string, IApiChange[]]>) {
+        if (group.length > 0) {
+            lines.push(title, ...group.map((change) => `  ${change.location}: ${change.message}`), "");
+        }
+    }
+    lines.push(`Found ${breaking.length} breaking and ${nonBreaking.length} non-breaking change(s)`);
+    return lines.join("\n") + "\n";
+}
+
+function collectMethods(routers: IExportedRouter[], diagnostics: IDiagnostic[]): { [key: string]: IMethodEntry } {
+    const result: { [key: string]: IMethodEntry } = {};
+    for (const router of routers) {
+        for (const route of router.routes) {
+            const routePath = path.posix.join(router.routeBase, route.route).replace(/(.)\/$/, "$1");
+            for (const method of route.methods) {
+                // placeholders are positional, their names do not matter to clients
+                const key = `${method.method} ${routePath.replace(/:[A-Za-z0-9_]+/g, ":")}`;
+                const location = `${method.method} ${routePath}`;
+                const first = result[key];
+                if (first !== undefined) {
+                    const source = first.method.source;
+                    const declared = source !== undefined ? ` (${source.fileName}:${source.line})` : "";
+                    diagnostics.push({
+                        column: 0,
+                        fileName: method.source !== undefined ? method.source.fileName : null,
+                        line: method.source !== undefined ? method.source.line : 0,
+                        message: `Another method is already declared as ${first.location}${declared}, `
+                            + "only the first one is compared",
+                        path: [router.name, route.route, method.method],
+                        severity: "error",
+                    });
+                    continue;
+                }
+                result[key] = { location, method };
+            }
+        }
+    }
+    return result;
+}
+
+function diffMethods(previous: IExportedRouteMethod, current: IExportedRouteMethod): Array<[ChangeKind, string]> {
+    const changes: Array<[ChangeKind, string]> = [];
+    if (previous.deprecated === undefined && current.deprecated !== undefined) {
+        changes.push(["non-breaking", "method was deprecated"]);
+    }
+    previous.params.forEach((param, index) => {
+        if (index < current.params.length) {
+            changes.push(...diffTypes(param.type, current.params[index].type, `param ${param.name}`, "request"));
+        }
+    });
+    changes.push(
+        ...diffParams("query parameter", previous.query, current.query, "request"),
+        ...diffParams("header", previous.headers, current.headers, "request"),
+        ...diffParams("cookie", previous.cookies, current.cookies, "request"),
+    );
+    if (previous.authorization === null && current.authorization !== null) {
+        changes.push(["breaking", "authorization is now required"]);
+    } else if (previous.authorization !== null && current.authorization === null) {
+        changes.push(["non-breaking", "authorization is no longer required"]);
+    } else if (previous.authorization !== null && current.authorization !== null) {
+        changes.push(...diffTypes(previous.authorization.type, current.authorization.type, "authorization", "request"));
+    }
+    if (previous.body === null && current.body !== null) {
+        changes.push(stripUndefined(current.body.type)[1]
+            ? ["non-breaking", "an optional body was added"]
+            : ["breaking", "a body is now required"]);
+    } else if (previous.body !== null && current.body === null) {
+        changes.push(["non-breaking", "the body was removed"]);
+    } else if (previous.body !== null && current.body !== null) {
+        changes.push(...diffOptionalTypes(previous.body.type, current.body.type, "body", "request"));
+    }
+    for (const response of previous.responses) {
+        const currentResponse = current.responses.find((candidate) => candidate.status === response.status);
+        const status = `response ${response.status}`;
+        if (currentResponse === undefined) {
+            changes.push(["breaking", `status ${response.status} was removed`]);
+            continue;
+        }
+        if (response.body === null && currentResponse.body !== null) {
+            changes.push(["breaking", `${status} now has a body`]);
+        } else if (response.body !== null && currentResponse.body === null) {
+            changes.push(["breaking", `${status} no longer has a body`]);
+        } else if (response.body !== null && currentResponse.body !== null) {
+            changes.push(...diffTypes(response.body, currentResponse.body, `${status} body`, "response"));
+        }
+        changes.push(...diffParams(`${status} header`, response.headers, currentResponse.headers, "response"));
+    }
+    for (const response of current.responses) {
+        if (!previous.responses.some((candidate) => candidate.status === response.status)) {
+            changes.push(["non-breaking", `status ${response.status} was added`]);
+        }
+    }
+    return changes;
+}
+
+function diffParams(
+    what: string,
+    previous: IQueryParam[],
+    current: IQueryParam[],
+    direction: Direction,
+): Array<[ChangeKind, string]> {
+    const changes: Array<[ChangeKind, string]> = [];
+    for (const param of previous) {
+        const currentParam = current.find((candidate) => candidate.name === param.name);
+        if (currentParam === undefined) {
+            // a client can not rely on a response header which was optional before
+            changes.push([direction === "response" && param.required ? "breaking" : "non-breaking",
+                `${what} ${param.name} was removed`]);
+            continue;
+        }
+        if (!param.required && currentParam.required) {
+            changes.push([direction === "request" ? "breaking" : "non-breaking",
+                `${what} ${param.name} became required`]);
+        } else if (param.required && !currentParam.required) {
+            changes.push([direction === "request" ? "non-breaking" : "breaking",
+                `${what} ${param.name} became optional`]);
+        }
+        if (param.deprecated === undefined && currentParam.deprecated !== undefined) {
+            changes.push(["non-breaking", `${what} ${param.name} was deprecated`]);
+        }
+        changes.push(...diffTypes(
+            stripUndefined(param.type)[0],
+            stripUndefined(currentParam.type)[0],
+            `${what} ${param.name}`,
+            direction,
+        ));
+    }
+    for (const param of current) {
+        if (!previous.some((candidate) => candidate.name === param.name)) {
+            changes.push([direction === "request" && param.required ? "breaking" : "non-breaking",
+                `${param.required ? "required" : "optional"} ${what} ${param.name} was added`]);
+        }
+    }
+    return changes;
+}
+
+/**
+ * Compare two types which may be optional (i.e. a union with undefined).
+ */
+function diffOptionalTypes(previous: Type, current: Type, what: string,
+                           direction: Direction): Array<[ChangeKind, string]> {
+    const [previousType, previousOptional] = stripUndefined(previous);
+    const [currentType, currentOptional] = stripUndefined(current);
+    const changes: Array<[ChangeKind, string]> = [];
+    if (previousOptional && !currentOptional) {
+        changes.push([direction === "request" ? "breaking" : "non-breaking", `${what} became required`]);
+    } else if (!previousOptional && currentOptional) {
+        changes.push([direction === "request" ? "non-breaking" : "breaking", `${what} became optional`]);
+    }
+    return changes.concat(diffTypes(previousType, currentType, what, direction));
+}
+
+/**
+ * Compare two types structurally (the names of types do not matter). Objects are compared member by
+ * member and literal sets value by value, so the report says what exactly changed.
+ */
+function diffTypes(previous: Type, current: Type, what: string, direction: Direction): Array<[ChangeKind, string]> {
+    if ("objectMembers" in previous && "objectMembers" in current && !isDateType(previous) && !isDateType(current)) {
+        return diffMembers(previous.objectMembers, current.objectMembers, what, direction);
+    }
+    if ("dictionaryValue" in previous && "dictionaryValue" in current) {
+        return [
+            ...diffMembers(previous.dictionaryMembers, current.dictionaryMembers, what, direction),
+            ...diffTypes(previous.dictionaryValue, current.dictionaryValue, `${what}[key]`, direction),
+        ];
+    }
+    if ("arrayMembers" in previous && "arrayMembers" in current) {
+        return diffTypes(previous.arrayMembers, current.arrayMembers, `${what}[]`, direction);
+    }
+    const previousLiterals = getLiterals(previous);
+    const currentLiterals = getLiterals(current);
+    if (previousLiterals !== null && currentLiterals !== null) {
+        const changes: Array<[ChangeKind, string]> = [];
+        const removed = previousLiterals.filter((value) => !currentLiterals.includes(value));
+        const added = currentLiterals.filter((value) => !previousLiterals.includes(value));
+        // typed clients compare responses against the declared values, so any change to them breaks
+        if (removed.length > 0) {
+            changes.push(["breaking", `${what} no longer allows ${printLiterals(removed)}`]);
+        }
+        if (added.length > 0) {
+            changes.push([direction === "request" ? "non-breaking" : "breaking",
+                `${what} now allows ${printLiterals(added)}`]);
+        }
+        return changes;
+    }
+    const previousUnnamed = withoutNames(previous);
+    const currentUnnamed = withoutNames(current);
+    const widened = isAssignable(previousUnnamed, currentUnnamed);
+    const narrowed = isAssignable(currentUnnamed, previousUnnamed);
+    if (widened && narrowed) {
+        return [];
+    }
+    const message = `${what} changed from ${printType(previous)} to ${printType(current)}`;
+    if (direction === "request") {
+        return [[widened ? "non-breaking" : "breaking", message]];
+    }
+    return [[narrowed ? "non-breaking" : "breaking", message]];
+}
+
+function diffMembers(
+    previous: { [name: string]: Type },
+    current: { [name: string]: Type },
+    what: string,
+    direction: Direction,
+): Array<[ChangeKind, string]> {
+    const changes: Array<[ChangeKind, string]> = [];
+    for (const key of Object.keys(previous)) {
+        const member = `${what}.${key}`;
+        if (current[key] === undefined) {
+            const optional = stripUndefined(previous[key])[1];
+            changes.push([direction === "response" && !optional ? "breaking" : "non-breaking",
+                `${member} was removed`]);
+        } else {
+            changes.push(...diffOptionalTypes(previous[key], current[key], member, direction));
+        }
+    }
+    for (const key of Object.keys(current)) {
+        if (previous[key] === undefined) {
+            const optional = stripUndefined(current[key])[1];
+            changes.push([direction === "request" && !optional ? "breaking" : "non-breaking",
+                `${optional ? "optional" : "required"} ${what}.${key} was added`]);
+        }
+    }
+    return changes;
+}
+
+/**
+ * Get the values of a type consisting only of literals (and null), e.g. an enum. Returns null for all
+ * other types.
+ */
+function getLiterals(type: Type): Literal[] | null {
+    const values: Literal[] = [];
+    for (const member of splitUnion(type)) {
+        if ("strings" in member && member.strings !== "all") {
+            values.push(...member.strings);
+        } else if ("numbers" in member && member.numbers !== "all") {
+            values.push(...member.numbers);
+        } else if ("booleans" in member && member.booleans !== "all") {
+            values.push(...member.booleans);
+        } else if ("enumValues" in member) {
+            values.push(...Object.keys(member.enumValues).map((key) => member.enumValues[key]));
+        } else if ("null" in member) {
+            values.push(null);
+        } else {
+            return null;
+        }
+    }
+    return values;
+}
+
+function printLiterals(values: Literal[]): string {
+    return values.map((value) => JSON.stringify(value)).join(", ");
+}
+
+function printType(type: Type): string {
+    return printTypeScriptType(type, {}).replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Remove the names of a type and the types nested in it, as isAssignable treats types with the same
+ * name as equal.
+ */
+function withoutNames(type: Type): Type {
+    if ("arrayMembers" in type) {
+        return { ...type, arrayMembers: withoutNames(type.arrayMembers), name: null };
+    }
+    if ("tupleMembers" in type) {
+        return { ...type, name: null, tupleMembers: type.tupleMembers.map(withoutNames) };
+    }
+    if ("objectMembers" in type) {
+        return isDateType(type) ? type : { ...type, name: null, objectMembers: mapMembers(type.objectMembers) };
+    }
+    if ("dictionaryValue" in type) {
+        return {
+            ...type,
+            dictionaryMembers: mapMembers(type.dictionaryMembers),
+            dictionaryValue: withoutNames(type.dictionaryValue),
+            name: null,
+        };
+    }
+    if ("union" in type) {
+        return { ...type, name: null, union: type.union.map(withoutNames) };
+    }
+    if ("intersection" in type) {
+        return { ...type, intersection: type.intersection.map(withoutNames), name: null };
+    }
+    if ("enumValues" in type || "null" in type || "undefined" in type || "reference" in type) {
+        return type;
+    }
+    return { ...type, name: null };
+}
+
+function mapMembers(members: { [name: string]: Type }): { [name: string]: Type } {
+    const result: { [name: string]: Type } = {};
+    for (const key of Object.keys(members)) {
+        result[key] = withoutNames(members[key]);
+    }
+    return result;
+}
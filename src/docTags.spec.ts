@@ -0,0 +1,19 @@
+import { mergeTags, parseTagValue, printTags } from "./docTags";
+
+test("tag values are parsed as JSON if possible", () => {
+    expect(parseTagValue(" 42 ")).toBe(42);
+    expect(parseTagValue("```json\n{ \"id\": 1 }\n```")).toEqual({ id: 1 });
+    expect(parseTagValue("Buy milk")).toBe("Buy milk");
+});
+
+test("tags of later comments win, references accumulate", () => {
+    expect(mergeTags(
+        { see: ["https://example.com/a"], since: "1.0" },
+        { deprecated: "", see: ["https://example.com/b"], since: "1.1" },
+    )).toEqual({ deprecated: "", see: ["https://example.com/a", "https://example.com/b"], since: "1.1" });
+});
+
+test("tags are printed as JSDoc", () => {
+    expect(printTags({ default: "open", deprecated: "Use status", example: 1, see: ["IItem"], since: "1.0" }))
+        .toEqual(["@deprecated Use status", "@since 1.0", "@default \"open\"", "@see IItem"]);
+});
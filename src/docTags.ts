@@ -0,0 +1,64 @@
+import { IDocTags } from "./types";
+
+const TAG_NAMES: Array<keyof IDocTags> = ["deprecated", "since", "see", "default", "example"];
+
+/**
+ * Parse the value of an @default or @example tag. Values are JSON (optionally in a code block), anything
+ * else is taken as a string.
+ */
+export function parseTagValue(text: string): unknown {
+    const trimmed = text.trim().replace(/^```[a-z]*\n([^]*)\n```$/, "$1").trim();
+    try {
+        return JSON.parse(trimmed);
+    } catch (error) {
+        return trimmed;
+    }
+}
+
+/**
+ * Get only the tags of something documented (e.g. to move them from a member to its type).
+ */
+export function getTags(doc: IDocTags): IDocTags {
+    const tags: IDocTags = {};
+    for (const name of TAG_NAMES) {
+        if (doc[name] !== undefined) {
+            tags[name] = doc[name];
+        }
+    }
+    return tags;
+}
+
+export function hasTags(doc: IDocTags): boolean {
+    return TAG_NAMES.some((name) => doc[name] !== undefined);
+}
+
+/**
+ * Merge the tags of two comments, the tags of the later comment win (except for @see, which accumulates).
+ */
+export function mergeTags(acc: IDocTags, doc: IDocTags): IDocTags {
+    const tags = { ...getTags(acc), ...getTags(doc) };
+    if (acc.see !== undefined && doc.see !== undefined) {
+        tags.see = [...acc.see, ...doc.see];
+    }
+    return tags;
+}
+
+/**
+ * Print the tags as JSDoc lines (without the example, which backends show on their own).
+ */
+export function printTags(doc: IDocTags): string[] {
+    const lines: string[] = [];
+    if (doc.deprecated !== undefined) {
+        lines.push(doc.deprecated === "" ? "@deprecated" : `@deprecated ${doc.deprecated}`);
+    }
+    if (doc.since !== undefined) {
+        lines.push(`@since ${doc.since}`);
+    }
+    if (doc.default !== undefined) {
+        lines.push(`@default ${JSON.stringify(doc.default)}`);
+    }
+    for (const see of doc.see || []) {
+        lines.push(`@see ${see}`);
+    }
+    return lines;
+}
@@ -0,0 +1,61 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseRoutersDump, printRoutersDump } from "./dump";
+import { IObjectType, Type } from "./types";
+
+const root = path.join(__dirname, "..");
+
+test("dumps can be read back", () => {
+    const text = fs.readFileSync(path.join(root, "example.json"), "utf8");
+    const routers = parseRoutersDump(text, root);
+    expect(routers[0].source).toEqual({ fileName: path.join(root, "src", "example.ts"), line: 8 });
+    expect(printRoutersDump(routers, root)).toBe(text);
+});
+
+test("keys are sorted, members keep their order", () => {
+    // neither the members nor the keys of the example are in alphabetical order
+    const objectMembers: IObjectType["objectMembers"] = {};
+    objectMembers.status = { documentation: null, name: null, strings: "all" };
+    objectMembers.id = { documentation: null, example: JSON.parse(`{"z": 1, "a": 2}`), name: null, numbers: "all" };
+    const item: Type = {
+        documentation: null,
+        name: "IItem",
+        objectMembers,
+        source: { fileName: path.join(root, "src", "item.ts"), line: 3 },
+    };
+    const dump = JSON.parse(printRoutersDump([{
+        documentation: null,
+        name: "IRoutes",
+        routeBase: "/",
+        routes: [{
+            documentation: null,
+            methods: [{
+                authorization: null,
+                body: { documentation: null, type: item },
+                cookies: [],
+                customMethod: false,
+                documentation: null,
+                headers: [],
+                method: "POST",
+                name: "createItem",
+                params: [],
+                query: [],
+                responses: [],
+            }],
+            route: "/",
+        }],
+    }], root));
+    expect(Object.keys(dump)).toEqual(["schemaVersion", "routers"]);
+    const type = dump.routers[0].routes[0].methods[0].body.type;
+    expect(Object.keys(type)).toEqual(["documentation", "name", "objectMembers", "source"]);
+    expect(type.source).toEqual({ fileName: "src/item.ts", line: 3 });
+    expect(Object.keys(type.objectMembers)).toEqual(["status", "id"]);
+    expect(Object.keys(type.objectMembers.id.example)).toEqual(["z", "a"]);
+});
+
+test("other versions are rejected", () => {
+    expect(() => parseRoutersDump("{", root)).toThrow(/^Invalid JSON/);
+    expect(() => parseRoutersDump("[]", root)).toThrow("Expected an object with a schemaVersion");
+    expect(() => parseRoutersDump(JSON.stringify({ routers: [], schemaVersion: 2 }), root))
+        .toThrow("Unsupported schema version 2, expected 1");
+});
@@ -0,0 +1,87 @@
+import * as path from "path";
+import { IExportedRouter, ISourceLocation } from "./types";
+
+/**
+ * Version of the JSON format written by printRoutersDump. Increase it whenever the intermediate
+ * representation changes in a way consumers of the dump have to know about.
+ */
+export const DUMP_SCHEMA_VERSION = 1;
+
+export interface IRoutersDump {
+    schemaVersion: number;
+    routers: IExportedRouter[];
+}
+
+// maps keyed by member names, their order is the declaration order and has to be kept
+const ORDERED_KEYS = ["objectMembers", "dictionaryMembers", "enumValues"];
+// values given by the user (@default, @example), written as they are
+const VERBATIM_KEYS = ["default", "example"];
+
+/**
+ * Serialize the routers as JSON. Keys are sorted (except for members, which stay in declaration order),
+ * so the same routers always result in the same text. Source file names are written relative to the
+ * given directory (usually the one of the dump file) with forward slashes.
+ */
+export function printRoutersDump(routers: IExportedRouter[], baseDirectory: string): string {
+    // assign the keys one by one to have the version first
+    const dump: { [key: string]: unknown } = {
+        schemaVersion: DUMP_SCHEMA_VERSION,
+    };
+    dump.routers = stableCopy(routers, false, (fileName) =>
+        path.relative(baseDirectory, fileName).split(path.sep).join("/"),
+    );
+    return JSON.stringify(dump, undefined, 2) + "\n";
+}
+
+/**
+ * Read routers written by printRoutersDump. Relative source file names are resolved against the given
+ * directory. Throws if the text is not a dump of a supported version.
+ */
+export function parseRoutersDump(text: string, baseDirectory: string): IExportedRouter[] {
+    let dump: Partial<IRoutersDump>;
+    try {
+        dump = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error.message}`);
+    }
+    if (typeof dump !== "object" || dump === null || typeof dump.schemaVersion !== "number") {
+        throw new Error("Expected an object with a schemaVersion");
+    }
+    if (dump.schemaVersion !== DUMP_SCHEMA_VERSION) {
+        throw new Error(`Unsupported schema version ${dump.schemaVersion}, expected ${DUMP_SCHEMA_VERSION}`);
+    }
+    if (!Array.isArray(dump.routers)) {
+        throw new Error("Expected an array of routers");
+    }
+    return stableCopy(dump.routers, false, (fileName) => path.resolve(baseDirectory, fileName)) as IExportedRouter[];
+}
+
+/**
+ * Copy a value, sorting the keys of objects and mapping the file names of source locations. If keepOrder is
+ * set, the value is a map of members (keyed by name) and the keys are kept as they are.
+ */
+function stableCopy(value: unknown, keepOrder: boolean, mapFileName: (fileName: string) => string): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item) => stableCopy(item, false, mapFileName));
+    }
+    if (typeof value !== "object" || value === null) {
+        return value;
+    }
+    const object = value as { [key: string]: unknown };
+    const keys = keepOrder ? Object.keys(object) : Object.keys(object).sort();
+    const result: { [key: string]: unknown } = {};
+    for (const key of keys) {
+        if (object[key] === undefined) {
+            continue;
+        }
+        if (VERBATIM_KEYS.includes(key) && !keepOrder) {
+            result[key] = object[key];
+        } else if (key === "source" && !keepOrder) {
+            const source = object[key] as ISourceLocation;
+            result[key] = { fileName: mapFileName(source.fileName), line: source.line };
+        } else {
+            result[key] = stableCopy(object[key], !keepOrder && ORDERED_KEYS.includes(key), mapFileName);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,303 @@
+// This file was generated by docroutes, do not edit it by hand.
+/* tslint:disable */
+
+/**
+ * The subset of the fetch API the clients use, so they work with window.fetch as well as node-fetch.
+ */
+export interface IClientRequestInit {
+    method: string;
+    headers: { [name: string]: string };
+    body?: string;
+}
+
+export interface IClientResponse {
+    status: number;
+    headers: { get(name: string): string | null };
+    text(): Promise<string>;
+}
+
+export type ClientFetch = (url: string, init: IClientRequestInit) => Promise<IClientResponse>;
+
+function buildHeaders(headers: { [name: string]: unknown }): { [name: string]: string } {
+    const result: { [name: string]: string } = {};
+    for (const name of Object.keys(headers)) {
+        if (headers[name] !== undefined) {
+            result[name] = String(headers[name]);
+        }
+    }
+    return result;
+}
+
+function buildQuery(query: { [name: string]: unknown }): string {
+    const parts: string[] = [];
+    for (const name of Object.keys(query)) {
+        const value = query[name];
+        if (value === undefined) {
+            continue;
+        }
+        for (const item of Array.isArray(value) ? value : [value]) {
+            const text = typeof item === "object" && item !== null ? JSON.stringify(item) : String(item);
+            parts.push(encodeURIComponent(name) + "=" + encodeURIComponent(text));
+        }
+    }
+    return parts.length > 0 ? "?" + parts.join("&") : "";
+}
+
+async function readBody(response: IClientResponse): Promise<any> {
+    const text = await response.text();
+    return text === "" ? undefined : JSON.parse(text);
+}
+
+/**
+ * A single task we aim to do (eventually).
+ */
+export type ITodoItem = {
+    item: string;
+    created: string;
+    status: TaskStatus;
+    due: string | null;
+};
+
+/**
+ * Current status of a task.
+ *
+ * No finished status is provided as finished tasks are expected to be deleted.
+ */
+export type TaskStatus = "open" | "started" | "onHold";
+
+/**
+ * A server responds with a task containing the id, but a user does not have this id.
+ */
+export type ITodoItemWithKey = {
+    id: number;
+    item: string;
+    created: string;
+    status: TaskStatus;
+    due: string | null;
+};
+
+export type Partial_ITodoItem = {
+    item?: string;
+    created?: string;
+    status?: TaskStatus;
+    due?: string | null;
+};
+
+export type TodoList = ITodoItem[];
+
+/**
+ * Routes for the TODO app.
+ */
+export class ITodoRoutesClient {
+    private readonly baseUrl: string;
+    private readonly fetch: ClientFetch;
+
+    public constructor(baseUrl: string, fetch: ClientFetch) {
+        this.baseUrl = baseUrl.replace(/\/+$/, "");
+        this.fetch = fetch;
+    }
+
+    /**
+     * POST /todo/create
+     *
+     * We use POST here.
+     */
+    public async createTask(request: {
+        headers?: {
+            /**
+             * Used to detect duplicate requests.
+             */
+            "X-Request-Id"?: string;
+        };
+        authorization: string;
+        body: ITodoItem;
+    }): Promise<
+        | { status: 201; body: number; headers: { Location: string | null } }
+        | { status: 202; body: undefined }
+    > {
+        const url = this.baseUrl + "/todo/create";
+        const response = await this.fetch(url, {
+            body: JSON.stringify(request.body),
+            headers: {
+                ...buildHeaders(request.headers || {}),
+                "Authorization": String(request.authorization),
+                "Content-Type": "application/json",
+            },
+            method: "POST",
+        });
+        switch (response.status) {
+            case 201:
+                return { body: await readBody(response), headers: { Location: response.headers.get("Location") }, status: 201 };
+            case 202:
+                return { body: undefined, status: 202 };
+        }
+        throw new Error(`Unexpected response status ${response.status} for POST ${url}`);
+    }
+
+    /**
+     * GET /todo/:id
+     */
+    public async getTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        query?: {
+            /**
+             * Only return the result if it is not due already.
+             *
+             * @default false
+             */
+            ifNotDue?: boolean;
+            /**
+             * Testing rendering of multiple query parameters.
+             *
+             * @deprecated Only kept to test the rendering of deprecated parameters.
+             */
+            someSecondParam?: number;
+        };
+    }): Promise<
+        | { status: 200; body: ITodoItemWithKey }
+        | { status: 404; body: undefined }
+        | { status: 417; body: undefined }
+    > {
+        const url = this.baseUrl + "/todo/" + encodeURIComponent(String(request.params.id)) + buildQuery(request.query || {});
+        const response = await this.fetch(url, {
+            headers: {},
+            method: "GET",
+        });
+        switch (response.status) {
+            case 200:
+                return { body: await readBody(response), status: 200 };
+            case 404:
+                return { body: undefined, status: 404 };
+            case 417:
+                return { body: undefined, status: 417 };
+        }
+        throw new Error(`Unexpected response status ${response.status} for GET ${url}`);
+    }
+
+    /**
+     * PUT /todo/:id
+     */
+    public async updateTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        authorization: string;
+        body: ITodoItem;
+    }): Promise<
+        | { status: 204; body: undefined }
+        | { status: 404; body: undefined }
+    > {
+        const url = this.baseUrl + "/todo/" + encodeURIComponent(String(request.params.id));
+        const response = await this.fetch(url, {
+            body: JSON.stringify(request.body),
+            headers: {
+                "Authorization": String(request.authorization),
+                "Content-Type": "application/json",
+            },
+            method: "PUT",
+        });
+        switch (response.status) {
+            case 204:
+                return { body: undefined, status: 204 };
+            case 404:
+                return { body: undefined, status: 404 };
+        }
+        throw new Error(`Unexpected response status ${response.status} for PUT ${url}`);
+    }
+
+    /**
+     * PATCH /todo/:id
+     *
+     * @since 0.0.5
+     */
+    public async partiallyUpdateTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        authorization: string;
+        body: Partial_ITodoItem;
+    }): Promise<
+        | { status: 204; body: undefined }
+        | { status: 404; body: undefined }
+    > {
+        const url = this.baseUrl + "/todo/" + encodeURIComponent(String(request.params.id));
+        const response = await this.fetch(url, {
+            body: JSON.stringify(request.body),
+            headers: {
+                "Authorization": String(request.authorization),
+                "Content-Type": "application/json",
+            },
+            method: "PATCH",
+        });
+        switch (response.status) {
+            case 204:
+                return { body: undefined, status: 204 };
+            case 404:
+                return { body: undefined, status: 404 };
+        }
+        throw new Error(`Unexpected response status ${response.status} for PATCH ${url}`);
+    }
+
+    /**
+     * DELETE /todo/:id
+     */
+    public async deleteTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        authorization: string;
+    }): Promise<
+        | { status: 204; body: undefined }
+        | { status: 401; body: undefined }
+        | { status: 404; body: undefined }
+    > {
+        const url = this.baseUrl + "/todo/" + encodeURIComponent(String(request.params.id));
+        const response = await this.fetch(url, {
+            headers: {
+                "Authorization": String(request.authorization),
+            },
+            method: "DELETE",
+        });
+        switch (response.status) {
+            case 204:
+                return { body: undefined, status: 204 };
+            case 401:
+                return { body: undefined, status: 401 };
+            case 404:
+                return { body: undefined, status: 404 };
+        }
+        throw new Error(`Unexpected response status ${response.status} for DELETE ${url}`);
+    }
+
+    /**
+     * GET /todo/list
+     */
+    public async listAllTasks(): Promise<
+        | { status: 200; body: TodoList }
+    > {
+        const url = this.baseUrl + "/todo/list";
+        const response = await this.fetch(url, {
+            headers: {},
+            method: "GET",
+        });
+        switch (response.status) {
+            case 200:
+                return { body: await readBody(response), status: 200 };
+        }
+        throw new Error(`Unexpected response status ${response.status} for GET ${url}`);
+    }
+}
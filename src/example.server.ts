@@ -0,0 +1,351 @@
+// This file was generated by docroutes, do not edit it by hand.
+/* tslint:disable */
+
+/**
+ * The subset of Express the handlers need. Cookies are only available with a cookie parser (e.g.
+ * cookie-parser) and bodies with a JSON body parser (e.g. express.json()).
+ */
+export interface IServerRequest {
+    params: { [name: string]: string };
+    query: { [name: string]: unknown };
+    headers: { [name: string]: string | string[] | undefined };
+    cookies?: { [name: string]: string };
+    body?: unknown;
+}
+
+export interface IServerResponse {
+    status(code: number): IServerResponse;
+    set(name: string, value: string): IServerResponse;
+    json(body: unknown): unknown;
+    end(): unknown;
+}
+
+export type ServerHandler = (req: IServerRequest, res: IServerResponse, next: (error?: unknown) => void) => void;
+
+type Coercion = "boolean" | "number" | "string";
+
+interface IRequestSpec {
+    params: { [name: string]: Coercion };
+    query: { [name: string]: Coercion };
+    headers: string[];
+    cookies: string[];
+    authorization: boolean;
+    body: boolean;
+}
+
+/**
+ * Path and query parameters arrive as strings, convert them to numbers and booleans where declared.
+ */
+function coerce(value: unknown, coercion: Coercion): unknown {
+    if (typeof value !== "string") {
+        return value;
+    }
+    if (coercion === "number" && value.trim() !== "" && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    if (coercion === "boolean" && (value === "true" || value === "false")) {
+        return value === "true";
+    }
+    return value;
+}
+
+/**
+ * Collect the declared parts of a request, the result is narrowed to the request type of the handler.
+ */
+function buildRequest(req: IServerRequest, spec: IRequestSpec): unknown {
+    const request: { [key: string]: unknown } = {};
+    if (Object.keys(spec.params).length > 0) {
+        const params: { [name: string]: unknown } = {};
+        for (const name of Object.keys(spec.params)) {
+            params[name] = coerce(req.params[name], spec.params[name]);
+        }
+        request.params = params;
+    }
+    if (Object.keys(spec.query).length > 0) {
+        const query: { [name: string]: unknown } = {};
+        for (const name of Object.keys(spec.query)) {
+            if (req.query[name] !== undefined) {
+                query[name] = coerce(req.query[name], spec.query[name]);
+            }
+        }
+        request.query = query;
+    }
+    if (spec.headers.length > 0) {
+        const headers: { [name: string]: unknown } = {};
+        for (const name of spec.headers) {
+            if (req.headers[name.toLowerCase()] !== undefined) {
+                headers[name] = req.headers[name.toLowerCase()];
+            }
+        }
+        request.headers = headers;
+    }
+    if (spec.cookies.length > 0) {
+        const cookies: { [name: string]: unknown } = {};
+        for (const name of spec.cookies) {
+            if (req.cookies !== undefined && req.cookies[name] !== undefined) {
+                cookies[name] = req.cookies[name];
+            }
+        }
+        request.cookies = cookies;
+    }
+    if (spec.authorization) {
+        request.authorization = req.headers.authorization;
+    }
+    if (spec.body) {
+        request.body = req.body;
+    }
+    return request;
+}
+
+function sendResult(
+    res: IServerResponse,
+    result: { status: number; body?: unknown; headers?: { [name: string]: unknown } },
+): void {
+    res.status(result.status);
+    if (result.headers !== undefined) {
+        for (const name of Object.keys(result.headers)) {
+            if (result.headers[name] !== undefined) {
+                res.set(name, String(result.headers[name]));
+            }
+        }
+    }
+    if (result.body === undefined) {
+        res.end();
+    } else {
+        res.json(result.body);
+    }
+}
+
+/**
+ * A single task we aim to do (eventually).
+ */
+export type ITodoItem = {
+    item: string;
+    created: string;
+    status: TaskStatus;
+    due: string | null;
+};
+
+/**
+ * Current status of a task.
+ *
+ * No finished status is provided as finished tasks are expected to be deleted.
+ */
+export type TaskStatus = "open" | "started" | "onHold";
+
+/**
+ * A server responds with a task containing the id, but a user does not have this id.
+ */
+export type ITodoItemWithKey = {
+    id: number;
+    item: string;
+    created: string;
+    status: TaskStatus;
+    due: string | null;
+};
+
+export type Partial_ITodoItem = {
+    item?: string;
+    created?: string;
+    status?: TaskStatus;
+    due?: string | null;
+};
+
+export type TodoList = ITodoItem[];
+
+/**
+ * Routes for the TODO app.
+ */
+export interface ITodoRoutesHandlers {
+    /**
+     * POST /todo/create
+     *
+     * We use POST here.
+     */
+    createTask(request: {
+        headers: {
+            /**
+             * Used to detect duplicate requests.
+             */
+            "X-Request-Id"?: string;
+        };
+        authorization: string;
+        body: ITodoItem;
+    }): Promise<
+        | { status: 201; body: number; headers: { Location: string } }
+        | { status: 202 }
+    >;
+
+    /**
+     * GET /todo/:id
+     */
+    getTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        query: {
+            /**
+             * Only return the result if it is not due already.
+             *
+             * @default false
+             */
+            ifNotDue?: boolean;
+            /**
+             * Testing rendering of multiple query parameters.
+             *
+             * @deprecated Only kept to test the rendering of deprecated parameters.
+             */
+            someSecondParam?: number;
+        };
+    }): Promise<
+        | { status: 200; body: ITodoItemWithKey }
+        | { status: 404 }
+        | { status: 417 }
+    >;
+
+    /**
+     * PUT /todo/:id
+     */
+    updateTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        authorization: string;
+        body: ITodoItem;
+    }): Promise<
+        | { status: 204 }
+        | { status: 404 }
+    >;
+
+    /**
+     * PATCH /todo/:id
+     *
+     * @since 0.0.5
+     */
+    partiallyUpdateTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        authorization: string;
+        body: Partial_ITodoItem;
+    }): Promise<
+        | { status: 204 }
+        | { status: 404 }
+    >;
+
+    /**
+     * DELETE /todo/:id
+     */
+    deleteTaskByID(request: {
+        params: {
+            /**
+             * The id of the thing we request.
+             */
+            id: number;
+        };
+        authorization: string;
+    }): Promise<
+        | { status: 204 }
+        | { status: 401 }
+        | { status: 404 }
+    >;
+
+    /**
+     * GET /todo/list
+     */
+    listAllTasks(request: {}): Promise<
+        | { status: 200; body: TodoList }
+    >;
+}
+
+/**
+ * The methods of an Express router used to mount the handlers of ITodoRoutes.
+ */
+export interface ITodoRoutesRouter {
+    post(path: string, handler: ServerHandler): unknown;
+    get(path: string, handler: ServerHandler): unknown;
+    put(path: string, handler: ServerHandler): unknown;
+    patch(path: string, handler: ServerHandler): unknown;
+    delete(path: string, handler: ServerHandler): unknown;
+}
+
+/**
+ * Mount the handlers of ITodoRoutes on an Express router (or application).
+ */
+export function registerITodoRoutes(router: ITodoRoutesRouter, handlers: ITodoRoutesHandlers): void {
+    router.post("/todo/create", (req, res, next) => {
+        const request = buildRequest(req, {
+            authorization: true,
+            body: true,
+            cookies: [],
+            headers: ["X-Request-Id"],
+            params: {},
+            query: {},
+        }) as Parameters<ITodoRoutesHandlers["createTask"]>[0];
+        handlers.createTask(request).then((result) => sendResult(res, result), next);
+    });
+    router.get("/todo/:id", (req, res, next) => {
+        const request = buildRequest(req, {
+            authorization: false,
+            body: false,
+            cookies: [],
+            headers: [],
+            params: { id: "number" },
+            query: { ifNotDue: "boolean", someSecondParam: "number" },
+        }) as Parameters<ITodoRoutesHandlers["getTaskByID"]>[0];
+        handlers.getTaskByID(request).then((result) => sendResult(res, result), next);
+    });
+    router.put("/todo/:id", (req, res, next) => {
+        const request = buildRequest(req, {
+            authorization: true,
+            body: true,
+            cookies: [],
+            headers: [],
+            params: { id: "number" },
+            query: {},
+        }) as Parameters<ITodoRoutesHandlers["updateTaskByID"]>[0];
+        handlers.updateTaskByID(request).then((result) => sendResult(res, result), next);
+    });
+    router.patch("/todo/:id", (req, res, next) => {
+        const request = buildRequest(req, {
+            authorization: true,
+            body: true,
+            cookies: [],
+            headers: [],
+            params: { id: "number" },
+            query: {},
+        }) as Parameters<ITodoRoutesHandlers["partiallyUpdateTaskByID"]>[0];
+        handlers.partiallyUpdateTaskByID(request).then((result) => sendResult(res, result), next);
+    });
+    router.delete("/todo/:id", (req, res, next) => {
+        const request = buildRequest(req, {
+            authorization: true,
+            body: false,
+            cookies: [],
+            headers: [],
+            params: { id: "number" },
+            query: {},
+        }) as Parameters<ITodoRoutesHandlers["deleteTaskByID"]>[0];
+        handlers.deleteTaskByID(request).then((result) => sendResult(res, result), next);
+    });
+    router.get("/todo/list", (req, res, next) => {
+        const request = buildRequest(req, {
+            authorization: false,
+            body: false,
+            cookies: [],
+            headers: [],
+            params: {},
+            query: {},
+        }) as Parameters<ITodoRoutesHandlers["listAllTasks"]>[0];
+        handlers.listAllTasks(request).then((result) => sendResult(res, result), next);
+    });
+}
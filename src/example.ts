@@ -16,10 +16,18 @@ export interface ITodoRoutes {
         "POST": {
             authorization: string;
             body: ITodoItem;
+            headers: {
+                /**
+                 * Used to detect duplicate requests.
+                 */
+                "X-Request-Id"?: string;
+            };
             name: "Create Task";
             response: {
                 /**
                  * The server might respond with the id of the task.
+                 *
+                 * @example 42
                  */
                 201: number;
                 /**
@@ -27,6 +35,14 @@ export interface ITodoRoutes {
                  */
                 202: undefined;
             }
+            responseHeaders: {
+                201: {
+                    /**
+                     * The URL of the new task.
+                     */
+                    Location: string;
+                };
+            };
         };
     };
     /**
@@ -44,10 +60,14 @@ export interface ITodoRoutes {
             query: {
                 /**
                  * Only return the result if it is not due already.
+                 *
+                 * @default false
                  */
                 ifNotDue?: boolean;
                 /**
                  * Testing rendering of multiple query parameters.
+                 *
+                 * @deprecated Only kept to test the rendering of deprecated parameters.
                  */
                 someSecondParam?: number;
             }
@@ -81,9 +101,36 @@ export interface ITodoRoutes {
                 404: undefined;
             };
         };
+        /**
+         * @since 0.0.5
+         */
+        "PATCH": {
+            authorization: string;
+            name: "Partially update task by ID";
+            param: {
+                /**
+                 * The id of the thing we request.
+                 */
+                id: number;
+            };
+            /**
+             * Only the given fields are changed.
+             */
+            body: Partial<ITodoItem>;
+            response: {
+                204: undefined;
+                404: undefined;
+            };
+        };
         "DELETE": {
             authorization: string;
             name: "Delete task by ID";
+            param: {
+                /**
+                 * The id of the thing we request.
+                 */
+                id: number;
+            };
             response: {
                 204: undefined;
                 401: undefined;
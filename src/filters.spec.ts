@@ -0,0 +1,19 @@
+import { filterFiles, globToRegExp } from "./filters";
+
+test("glob patterns", () => {
+    expect(globToRegExp("/p/src/*.ts").test("/p/src/a.ts")).toBe(true);
+    expect(globToRegExp("/p/src/*.ts").test("/p/src/sub/a.ts")).toBe(false);
+    expect(globToRegExp("/p/**/*.spec.ts").test("/p/a.spec.ts")).toBe(true);
+    expect(globToRegExp("/p/**/*.spec.ts").test("/p/src/sub/a.spec.ts")).toBe(true);
+    expect(globToRegExp("/p/src/?.ts").test("/p/src/ab.ts")).toBe(false);
+    expect(globToRegExp("/p/src.v2/a.ts").test("/p/srcxv2/a.ts")).toBe(false);
+    // a directory matches everything in it
+    expect(globToRegExp("/p/src/generated").test("/p/src/generated/api.ts")).toBe(true);
+    expect(globToRegExp("/p/src/generated").test("/p/src/generated.ts")).toBe(false);
+});
+
+test("files are included and excluded", () => {
+    const files = ["/p/src/a.ts", "/p/src/a.spec.ts", "/p/src/gen/b.ts", "/p/test/c.ts"];
+    expect(filterFiles(files, [], [])).toEqual(files);
+    expect(filterFiles(files, ["/p/src"], ["/p/**/*.spec.ts", "/p/src/gen"])).toEqual(["/p/src/a.ts"]);
+});
@@ -0,0 +1,78 @@
+export interface IRouterFilter {
+    // names of the routers to keep, * matches any characters (all routers if empty)
+    names: string[];
+    // keep only routers whose route base is one of these prefixes or below it (all routers if empty)
+    routeBases: string[];
+    // keep only routers with one of these JSDoc tags, e.g. public (all routers if empty)
+    tags: string[];
+    // drop routers with one of these JSDoc tags, e.g. internal
+    excludeTags: string[];
+}
+
+export const NO_ROUTER_FILTER: IRouterFilter = {
+    excludeTags: [],
+    names: [],
+    routeBases: [],
+    tags: [],
+};
+
+/**
+ * Convert a glob pattern to a regular expression. `**` matches any number of directories, `*` and `?`
+ * match any characters but a slash. A pattern matching a directory also matches everything in it.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const glob = pattern.replace(/\\/g, "/");
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        if (glob.startsWith("**/", i)) {
+            source += "(?:.*/)?";
+            i += 2;
+        } else if (glob.startsWith("**", i)) {
+            source += ".*";
+            i += 1;
+        } else if (glob[i] === "*") {
+            source += "[^/]*";
+        } else if (glob[i] === "?") {
+            source += "[^/]";
+        } else {
+            source += glob[i].replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Keep the files matching one of the include patterns (all files if there are none) and none of the
+ * exclude patterns. Patterns have to be absolute, like the file names.
+ */
+export function filterFiles(files: string[], include: string[], exclude: string[]): string[] {
+    const includes = include.map(globToRegExp);
+    const excludes = exclude.map(globToRegExp);
+    return files.filter((file) => {
+        const fileName = file.replace(/\\/g, "/");
+        return (includes.length === 0 || includes.some((regExp) => regExp.test(fileName)))
+            && !excludes.some((regExp) => regExp.test(fileName));
+    });
+}
+
+/**
+ * Check whether a router with the given name, route base and JSDoc tags passes the filter.
+ */
+export function matchesRouterFilter(filter: IRouterFilter, name: string, routeBase: string, tags: string[]): boolean {
+    if (filter.names.length > 0 && !filter.names.some((pattern) => globToRegExp(pattern).test(name))) {
+        return false;
+    }
+    if (filter.routeBases.length > 0 && !filter.routeBases.some((prefix) => isBelow(routeBase, prefix))) {
+        return false;
+    }
+    if (filter.tags.length > 0 && !filter.tags.some((tag) => tags.includes(tag))) {
+        return false;
+    }
+    return !filter.excludeTags.some((tag) => tags.includes(tag));
+}
+
+function isBelow(routeBase: string, prefix: string): boolean {
+    const base = routeBase.replace(/\/+$/, "");
+    const parent = prefix.replace(/\/+$/, "");
+    return base === parent || base.startsWith(parent + "/");
+}
@@ -0,0 +1,36 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseRoutersDump } from "./dump";
+import { printHtmlSite } from "./html";
+
+const root = path.join(__dirname, "..");
+const routers = parseRoutersDump(fs.readFileSync(path.join(root, "example.json"), "utf8"), root);
+
+test("the site has an index, a page per router and a types page", () => {
+    const site = printHtmlSite(routers);
+    expect(Object.keys(site).sort()).toEqual(["ITodoRoutes.html", "index.html", "style.css", "types.html"]);
+    expect(site["index.html"]).toContain(`<h2><a href="ITodoRoutes.html">ITodoRoutes</a></h2>`);
+    // no assets from anywhere else
+    for (const fileName of Object.keys(site)) {
+        expect(site[fileName]).not.toMatch(/(src|href)="(https?:)?\/\//);
+    }
+});
+
+test("methods have anchors and named types link to the types page", () => {
+    const page = printHtmlSite(routers)["ITodoRoutes.html"];
+    expect(page).toContain(`<li><a href="#getTaskByID"><span class="method method-get">GET</span> Get task by ID</a></li>`);
+    expect(page).toContain(`<section id="getTaskByID">`);
+    expect(page).toContain(`<summary><a href="types.html#ITodoItem">ITodoItem</a></summary>`);
+    expect(page).toContain(`status: <a href="types.html#TaskStatus">TaskStatus</a>;`);
+    const types = printHtmlSite(routers)["types.html"];
+    expect(types).toContain(`<section id="Partial_ITodoItem">\n<h2>Partial&lt;ITodoItem&gt;</h2>`);
+    expect(types).toContain(`<pre><code>&quot;open&quot; | &quot;started&quot; | &quot;onHold&quot;</code></pre>`);
+});
+
+test("router pages do not replace the index or types page", () => {
+    const site = printHtmlSite([
+        { ...routers[0], name: "index" },
+        { ...routers[0], name: "index" },
+    ]);
+    expect(Object.keys(site).sort()).toEqual(["index.html", "index2.html", "index3.html", "style.css", "types.html"]);
+});
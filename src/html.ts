@@ -0,0 +1,474 @@
+import * as path from "path";
+import { getTags } from "./docTags";
+import { uniqueIdentifier } from "./identifiers";
+import { sampleValue } from "./samples";
+import { collectNamedTypes, isDateType, schemaName } from "./schema";
+import { stripUndefined } from "./typeOperations";
+import { IDocumented, IExportedRouteMethod, IExportedRouter, IQueryParam, Type } from "./types";
+import { needsParentheses, printDocComment, printPropertyName } from "./typescript";
+
+const INDENT = "    ";
+
+const TYPES_PAGE = "types.html";
+
+// pages (without extension) a router page must not replace
+const RESERVED_PAGES = ["index", "types"];
+
+const STYLE = `* {
+    box-sizing: border-box;
+}
+body {
+    color: #1f2328;
+    display: flex;
+    font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif;
+    line-height: 1.5;
+    margin: 0;
+}
+a {
+    color: #0969da;
+    text-decoration: none;
+}
+a:hover {
+    text-decoration: underline;
+}
+code, pre {
+    font-family: Menlo, Consolas, "Liberation Mono", monospace;
+    font-size: 0.875em;
+}
+pre {
+    background: #f6f8fa;
+    border-radius: 6px;
+    overflow: auto;
+    padding: 1em;
+}
+nav {
+    background: #f6f8fa;
+    border-right: 1px solid #d0d7de;
+    flex: 0 0 18em;
+    height: 100vh;
+    overflow-y: auto;
+    padding: 1em;
+    position: sticky;
+    top: 0;
+}
+nav ul {
+    list-style: none;
+    margin: 0;
+    padding-left: 0.5em;
+}
+nav li {
+    margin: 0.25em 0;
+}
+main {
+    flex: 1;
+    max-width: 60em;
+    padding: 1em 2em;
+}
+section {
+    border-bottom: 1px solid #d0d7de;
+    padding-bottom: 1em;
+}
+table {
+    border-collapse: collapse;
+    margin: 0.5em 0;
+}
+th, td {
+    border: 1px solid #d0d7de;
+    padding: 0.25em 0.75em;
+    text-align: left;
+    vertical-align: top;
+}
+summary {
+    cursor: pointer;
+}
+.method {
+    background: #6e7781;
+    border-radius: 4px;
+    color: #fff;
+    display: inline-block;
+    font-family: Menlo, Consolas, "Liberation Mono", monospace;
+    font-size: 0.75em;
+    font-weight: bold;
+    min-width: 4.5em;
+    padding: 0.1em 0.4em;
+    text-align: center;
+}
+.method-get {
+    background: #1a7f37;
+}
+.method-post {
+    background: #0969da;
+}
+.method-put {
+    background: #9a6700;
+}
+.method-patch {
+    background: #8250df;
+}
+.method-delete {
+    background: #cf222e;
+}
+.deprecated h2, .deprecated h3 {
+    text-decoration: line-through;
+}
+.comment {
+    color: #6e7781;
+}
+`;
+
+/**
+ * Generate a static HTML site documenting the given routers: an index of all routers, a page for every
+ * router and a page with all named types, which are linked wherever they are used. The site needs no
+ * external assets (or JavaScript), so it can be browsed offline.
+ *
+ * Returns a map from file name to the content of the file.
+ */
+export function printHtmlSite(routers: IExportedRouter[]): { [fileName: string]: string } {
+    const pages = routerPageNames(routers);
+    const result: { [fileName: string]: string } = {
+        "index.html": printIndexPage(routers, pages),
+        "style.css": STYLE,
+    };
+    routers.forEach((router, index) => {
+        result[pages[index]] = printRouterPage(router, routers, pages);
+    });
+    result[TYPES_PAGE] = printTypesPage(routers, pages);
+    return result;
+}
+
+function routerPageNames(routers: IExportedRouter[]): string[] {
+    const used = [...RESERVED_PAGES];
+    return routers.map((router) => {
+        let name = schemaName(router.name) || "router";
+        for (let i = 2; used.includes(name); i++) {
+            name = schemaName(router.name) + i;
+        }
+        used.push(name);
+        return name + ".html";
+    });
+}
+
+function printPage(title: string, sidebar: string, content: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="style.css">
+</head>
+<body>
+<nav>
+${sidebar}</nav>
+<main>
+${content}</main>
+</body>
+</html>
+`;
+}
+
+function printRouterList(routers: IExportedRouter[], pages: string[]): string {
+    return "<ul>\n"
+        + routers.map((router, index) =>
+            `<li><a href="${pages[index]}">${escapeHtml(router.name)}</a></li>\n`,
+        ).join("")
+        + `<li><a href="${TYPES_PAGE}">Types</a></li>\n`
+        + "</ul>\n";
+}
+
+function printIndexPage(routers: IExportedRouter[], pages: string[]): string {
+    const content = "<h1>Routes</h1>\n" + routers.map((router, index) => "<section>\n"
+        + `<h2><a href="${pages[index]}">${escapeHtml(router.name)}</a></h2>\n`
+        + `<p>Prefix for all routes: <code>${escapeHtml(router.routeBase)}</code></p>\n`
+        + printDocumentation(router)
+        + "<ul>\n"
+        + router.routes.map((route) => `<li><code>${escapeHtml(path.posix.join(router.routeBase, route.route))}`
+            + `</code> ${route.methods.map((method) => printMethodBadge(method)).join(" ")}</li>\n`).join("")
+        + "</ul>\n"
+        + "</section>\n",
+    ).join("");
+    return printPage("Routes", `<h2><a href="index.html">Routes</a></h2>\n` + printRouterList(routers, pages), content);
+}
+
+function printRouterPage(router: IExportedRouter, routers: IExportedRouter[], pages: string[]): string {
+    // anchors are named like the methods of the generated client
+    const anchors: string[] = [];
+    const sidebar: string[] = [];
+    const content: string[] = [
+        `<h1>${escapeHtml(router.name)}</h1>\n`,
+        `<p>Prefix for all routes: <code>${escapeHtml(router.routeBase)}</code></p>\n`,
+        printDocumentation(router),
+    ];
+    for (const route of router.routes) {
+        const routePath = path.posix.join(router.routeBase, route.route);
+        const links: string[] = [];
+        for (const method of route.methods) {
+            const anchor = uniqueIdentifier(method.name, anchors);
+            anchors.push(anchor);
+            links.push(`<li><a href="#${anchor}">${printMethodBadge(method)} ${escapeHtml(method.name)}</a></li>\n`);
+            content.push(printMethod(routePath, route, method, anchor));
+        }
+        sidebar.push(`<li><code>${escapeHtml(routePath)}</code>\n<ul>\n${links.join("")}</ul>\n</li>\n`);
+    }
+    return printPage(
+        router.name,
+        `<h2><a href="index.html">Routes</a></h2>\n`
+            + printRouterList(routers, pages)
+            + `<h2>${escapeHtml(router.name)}</h2>\n<ul>\n${sidebar.join("")}</ul>\n`,
+        content.join(""),
+    );
+}
+
+function printTypesPage(routers: IExportedRouter[], pages: string[]): string {
+    const namedTypes = collectNamedTypes(routers);
+    const names = Object.keys(namedTypes);
+    const content = "<h1>Types</h1>\n" + names.map((name) => {
+        const type = namedTypes[name];
+        return `<section id="${schemaName(name)}">\n`
+            + `<h2>${escapeHtml(name)}</h2>\n`
+            + ("documentation" in type ? printDocumentation(type) : "")
+            + `<pre><code>${printHtmlInlineType(type, "")}</code></pre>\n`
+            + "</section>\n";
+    }).join("");
+    const sidebar = `<h2><a href="index.html">Routes</a></h2>\n`
+        + printRouterList(routers, pages)
+        + "<h2>Types</h2>\n<ul>\n"
+        + names.map((name) => `<li><a href="#${schemaName(name)}">${escapeHtml(name)}</a></li>\n`).join("")
+        + "</ul>\n";
+    return printPage("Types", sidebar, content);
+}
+
+function printMethod(routePath: string, route: IDocumented, method: IExportedRouteMethod, anchor: string): string {
+    const parts: string[] = [
+        `<section id="${anchor}"${method.deprecated !== undefined ? ` class="deprecated"` : ""}>\n`,
+        `<h2>${escapeHtml(method.name)}</h2>\n`,
+        `<p>${printMethodBadge(method)} <code>${escapeHtml(routePath)}</code></p>\n`,
+        printDocumentation(route),
+        printDocumentation(method),
+    ];
+    if (method.authorization !== null) {
+        parts.push("<h3>Authorization</h3>\n", printDocumentation(method.authorization));
+        parts.push(printTypeBlock(method.authorization.type));
+    }
+    if (method.params.length > 0) {
+        parts.push("<h3>Parameters</h3>\n", printParams(method.params.map((param) => ({ ...param, required: true }))));
+    }
+    if (method.query.length > 0) {
+        parts.push("<h3>Query-Parameters</h3>\n", printParams(method.query));
+    }
+    if (method.headers.length > 0) {
+        parts.push("<h3>Headers</h3>\n", printParams(method.headers));
+    }
+    if (method.cookies.length > 0) {
+        parts.push("<h3>Cookies</h3>\n", printParams(method.cookies));
+    }
+    if (method.body !== null) {
+        parts.push("<h3>Body</h3>\n", printDocumentation(method.body));
+        parts.push(printTypeBlock(method.body.type), printExample(method.body, method.body.type));
+    }
+    if (method.responses.length > 0) {
+        parts.push("<h3>Responses</h3>\n");
+        for (const response of method.responses) {
+            parts.push(`<h4><code>${response.status}</code></h4>\n`, printDocumentation(response));
+            if (response.body === null) {
+                parts.push("<p>Empty response</p>\n");
+            } else {
+                parts.push(printTypeBlock(response.body), printExample(response, response.body));
+            }
+            if (response.headers.length > 0) {
+                parts.push(printParams(response.headers));
+            }
+        }
+    }
+    parts.push("</section>\n");
+    return parts.join("");
+}
+
+function printMethodBadge(method: IExportedRouteMethod): string {
+    const modifier = method.method.toLowerCase().replace(/[^a-z0-9-]/g, "");
+    return `<span class="method method-${modifier}">${escapeHtml(method.method)}</span>`;
+}
+
+/**
+ * Print the documentation as paragraphs, followed by the deprecation, version and references.
+ */
+function printDocumentation(doc: IDocumented): string {
+    const parts: string[] = [];
+    if (doc.documentation !== null) {
+        parts.push(...doc.documentation.split(/\n\s*\n/).map((paragraph) => `<p>${printText(paragraph)}</p>\n`));
+    }
+    const tags: string[] = [];
+    if (doc.deprecated !== undefined) {
+        const explanation = doc.deprecated === "" ? "" : ": " + printText(doc.deprecated);
+        tags.push(`<li><strong>Deprecated</strong>${explanation}</li>`);
+    }
+    if (doc.since !== undefined) {
+        tags.push(`<li>Since: <code>${escapeHtml(doc.since)}</code></li>`);
+    }
+    for (const see of doc.see || []) {
+        tags.push(/^https?:\/\/\S+$/.test(see)
+            ? `<li>See: <a href="${escapeHtml(see)}">${escapeHtml(see)}</a></li>`
+            : `<li>See: ${printText(see)}</li>`);
+    }
+    if (tags.length > 0) {
+        parts.push(`<ul>\n${tags.map((tag) => tag + "\n").join("")}</ul>\n`);
+    }
+    return parts.join("");
+}
+
+/**
+ * Escape a text from a doc comment, keeping `code` spans.
+ */
+function printText(text: string): string {
+    return escapeHtml(text).replace(/`([^`]+)`/g, "<code>$1</code>");
+}
+
+function printParams(params: IQueryParam[]): string {
+    const rows = params.map((param) => {
+        const flags: string[] = param.required ? [] : ["optional"];
+        if (param.deprecated !== undefined) {
+            flags.push("<strong>deprecated</strong>");
+        }
+        if (param.default !== undefined) {
+            flags.push(`default: <code>${escapeHtml(JSON.stringify(param.default))}</code>`);
+        }
+        if (param.since !== undefined) {
+            flags.push(`since <code>${escapeHtml(param.since)}</code>`);
+        }
+        return "<tr>"
+            + `<td><code>${escapeHtml(param.name)}</code></td>`
+            + `<td><code>${printHtmlType(stripUndefined(param.type)[0], "")}</code></td>`
+            + `<td>${param.documentation !== null ? printText(param.documentation) : ""}`
+            + `${flags.length > 0 ? ` (${flags.join(", ")})` : ""}</td>`
+            + "</tr>\n";
+    });
+    return "<table>\n<tr><th>Name</th><th>Type</th><th>Description</th></tr>\n" + rows.join("") + "</table>\n";
+}
+
+/**
+ * Print a collapsible block with the definition of a type. Named types nested in it are linked.
+ */
+function printTypeBlock(type: Type): string {
+    const summary = "name" in type && type.name !== null && !isDateType(type)
+        ? printHtmlType(type, "")
+        : "Type";
+    return `<details open>\n<summary>${summary}</summary>\n`
+        + `<pre><code>${printHtmlInlineType(type, "")}</code></pre>\n</details>\n`;
+}
+
+/**
+ * Print a collapsible example payload, the @example of the body or response wins over the one generated
+ * from the type.
+ */
+function printExample(doc: IDocumented, type: Type): string {
+    const example = doc.example !== undefined ? doc.example : sampleValue(type);
+    if (example === undefined) {
+        return "";
+    }
+    return "<details>\n<summary>Example</summary>\n"
+        + `<pre><code>${escapeHtml(JSON.stringify(example, null, 2))}</code></pre>\n</details>\n`;
+}
+
+/**
+ * Print a type like TypeScript would, linking named types to their definition on the types page.
+ */
+function printHtmlType(type: Type, indent: string): string {
+    if ("name" in type && type.name !== null && !isDateType(type)) {
+        return `<a href="${TYPES_PAGE}#${schemaName(type.name)}">${escapeHtml(type.name)}</a>`;
+    }
+    return printHtmlInlineType(type, indent);
+}
+
+function printHtmlInlineType(type: Type, indent: string): string {
+    if ("numbers" in type) {
+        return type.numbers === "all" ? "number" : printLiterals(type.numbers);
+    }
+    if ("booleans" in type) {
+        return type.booleans === "all" ? "boolean" : printLiterals(type.booleans);
+    }
+    if ("strings" in type) {
+        return type.strings === "all" ? "string" : printLiterals(type.strings);
+    }
+    if ("enumValues" in type) {
+        return printLiterals(Object.keys(type.enumValues).map((key) => type.enumValues[key]));
+    }
+    if ("arrayMembers" in type) {
+        const member = printHtmlType(type.arrayMembers, indent);
+        return needsParentheses(type.arrayMembers) ? `Array&lt;${member}&gt;` : `${member}[]`;
+    }
+    if ("tupleMembers" in type) {
+        return `[${type.tupleMembers.map((member) => printHtmlType(member, indent)).join(", ")}]`;
+    }
+    if ("objectMembers" in type) {
+        if (isDateType(type)) {
+            return "Date";
+        }
+        return printMembers([], type.objectMembers, indent);
+    }
+    if ("dictionaryValue" in type) {
+        const key = "numbers" in type.dictionaryKey ? "number" : "string";
+        const index = `[key: ${key}]: ${printHtmlType(type.dictionaryValue, indent + INDENT)};`;
+        return printMembers([index], type.dictionaryMembers, indent);
+    }
+    if ("null" in type) {
+        return "null";
+    }
+    if ("undefined" in type) {
+        return "undefined";
+    }
+    if ("reference" in type) {
+        return `<a href="${TYPES_PAGE}#${schemaName(type.reference)}">${escapeHtml(type.reference)}</a>`;
+    }
+    if ("union" in type) {
+        if (type.union.length === 0) {
+            return "never";
+        }
+        return type.union.map((member) => printHtmlType(member, indent)).join(" | ");
+    }
+    if ("intersection" in type) {
+        if (type.intersection.length === 0) {
+            return "unknown";
+        }
+        return type.intersection.map((member) => {
+            const printed = printHtmlType(member, indent);
+            return needsParentheses(member) ? `(${printed})` : printed;
+        }).join(" &amp; ");
+    }
+    return "unknown";
+}
+
+function printMembers(extraLines: string[], members: { [name: string]: Type }, indent: string): string {
+    const memberIndent = indent + INDENT;
+    const lines = [
+        ...extraLines.map((line) => memberIndent + line + "\n"),
+        ...Object.keys(members).map((key) => {
+            const [memberType, optional] = stripUndefined(members[key]);
+            // tags of a member are attached to its (unnamed) type
+            const comment = "documentation" in memberType && memberType.name === null
+                ? printDocComment(memberType.documentation, memberIndent, getTags(memberType))
+                : "";
+            const doc = comment !== "" ? `<span class="comment">${escapeHtml(comment)}</span>` : "";
+            const memberName = escapeHtml(`${printPropertyName(key)}${optional ? "?" : ""}`);
+            return `${doc}${memberIndent}${memberName}: ${printHtmlType(memberType, memberIndent)};\n`;
+        }),
+    ];
+    if (lines.length === 0) {
+        return "{}";
+    }
+    return `{\n${lines.join("")}${indent}}`;
+}
+
+function printLiterals(values: Array<string | number | boolean>): string {
+    if (values.length === 0) {
+        return "never";
+    }
+    return values.map((value) => escapeHtml(JSON.stringify(value))).join(" | ");
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,30 @@
+/**
+ * Turn a human readable name (e.g. "Get task by ID") into a camel case identifier (getTaskByID) which is
+ * not contained in existing yet (by appending a number if needed).
+ */
+export function uniqueIdentifier(name: string, existing: string[]): string {
+    const words = name.split(/[^A-Za-z0-9]+/).filter((word) => word.length > 0);
+    const base = words.map((word, index) => index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1),
+    ).join("") || "operation";
+    return appendNumber(base, existing);
+}
+
+/**
+ * Turn the name of a type (e.g. Api.IError or Page<"a-b">) into an identifier (Api_IError, Page_a_b) which
+ * is not contained in existing yet (by appending a number if needed).
+ */
+export function typeIdentifier(name: string, existing: string[]): string {
+    const base = name.replace(/[^A-Za-z0-9_$]+/g, "_").replace(/^_+|_+$/g, "") || "Type";
+    return appendNumber(base, existing);
+}
+
+function appendNumber(name: string, existing: string[]): string {
+    const base = /^[0-9]/.test(name) ? "_" + name : name;
+    let result = base;
+    for (let i = 2; existing.includes(result); i++) {
+        result = base + i;
+    }
+    return result;
+}
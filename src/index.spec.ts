@@ -0,0 +1,115 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import main from "./index";
+
+function routesSource(routes: string[]): string {
+    return `
+/**
+ * #ExportRoute("/")
+ */
+export interface IRoutes {
+${routes.map((route) => `    "${route}": {
+        "GET": {
+            response: {
+                200: string;
+            };
+        };
+    };
+`).join("")}}
+`;
+}
+
+// run the command line tool, returning what it printed and its exit code
+function run(args: string[]): { output: string, errors: string, code: number } {
+    let output = "";
+    let errors = "";
+    const argv = process.argv;
+    const exit = jest.spyOn(process, "exit").mockImplementation((code?: number) => {
+        throw new Error(`exit ${code}`);
+    });
+    const write = jest.spyOn(process.stdout, "write").mockImplementation((chunk: string) => {
+        output += chunk;
+        return true;
+    });
+    const error = jest.spyOn(console, "error").mockImplementation((...messages: unknown[]) => {
+        errors += messages.join(" ") + "\n";
+    });
+    process.argv = ["node", "docroutes", ...args];
+    try {
+        main();
+        return { code: 0, errors, output };
+    } catch (e) {
+        const match = /^exit ([0-9]+)$/.exec(e.message);
+        if (match === null) {
+            throw e;
+        }
+        return { code: Number(match[1]), errors, output };
+    } finally {
+        process.argv = argv;
+        exit.mockRestore();
+        write.mockRestore();
+        error.mockRestore();
+    }
+}
+
+// write the files to a temporary directory, pass their paths to f and remove the directory afterwards
+function withFiles(files: { [name: string]: string }, f: (paths: string[]) => void): void {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "docroutes-"));
+    try {
+        f(Object.keys(files).map((name) => {
+            const fileName = path.join(directory, name);
+            if (!fs.existsSync(path.dirname(fileName))) {
+                fs.mkdirSync(path.dirname(fileName));
+            }
+            fs.writeFileSync(fileName, files[name]);
+            return fileName;
+        }));
+    } finally {
+        removeDirectory(directory);
+    }
+}
+
+function removeDirectory(directory: string): void {
+    for (const entry of fs.readdirSync(directory)) {
+        const fileName = path.join(directory, entry);
+        if (fs.statSync(fileName).isDirectory()) {
+            removeDirectory(fileName);
+        } else {
+            fs.unlinkSync(fileName);
+        }
+    }
+    fs.rmdirSync(directory);
+}
+
+test("the include patterns of diff do not apply to the previous version", () => {
+    withFiles({
+        "current/routes.ts": routesSource(["/items"]),
+        "previous/routes.ts": routesSource(["/items", "/users"]),
+    }, ([current, previous]) => {
+        const include = path.join(path.dirname(current), "**");
+        const result = run(["diff", "--against", path.dirname(previous), "--include", include, current]);
+        expect(result.output).toContain("Found 1 breaking and 0 non-breaking change(s)");
+        expect(result.code).toBe(1);
+    });
+});
+
+test("warnings fail the run with --strict", () => {
+    // the placeholder is not declared as param
+    withFiles({ "routes.ts": routesSource(["/items/:id"]) }, ([routes]) => {
+        const json = path.join(path.dirname(routes), "routes.json");
+        const result = run([routes, "--json", json]);
+        expect(result.code).toBe(0);
+        expect(result.errors).toContain(`${routes}:7:9 - warning: Route placeholder :id is not declared as param `
+            + "(IRoutes > /items/:id > GET)");
+        expect(run([routes, "--json", json, "--strict"]).code).toBe(1);
+    });
+});
+
+test("the title and version of the API are written to the OpenAPI document", () => {
+    withFiles({ "routes.ts": routesSource(["/items"]) }, ([routes]) => {
+        const openApi = path.join(path.dirname(routes), "openapi.json");
+        expect(run([routes, "--openapi", openApi, "--apiTitle", "Todo API", "--apiVersion", "1.2.0"]).code).toBe(0);
+        expect(JSON.parse(fs.readFileSync(openApi, "utf8")).info).toEqual({ title: "Todo API", version: "1.2.0" });
+    });
+});
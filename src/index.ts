@@ -1,1126 +1,309 @@
-import { stringify } from "circular-json";
 import * as fs from "fs";
+import * as http from "http";
 import * as path from "path";
 import * as ts from "typescript";
-import { printMarkdown, printMarkdownFull } from "./printer";
-import TypeParseFailure from "./TypeParseFailure";
+import { DIRECTORY_FORMATS, extractRouters, readTsConfig, render, RenderFormat } from "./api";
 import {
-    IDocumented,
-    IExportedRoute,
-    IExportedRouteMethod,
-    IExportedRouter,
-    IObjectType,
-    IStringType,
-    Type,
-} from "./types";
-
-// tslint:disable no-console member-ordering
+    CONFIG_FILE_NAME,
+    IConfigFile,
+    IOutputTarget,
+    MARKER_PATTERN,
+    METHOD_PATTERN,
+    parseConfigFile,
+} from "./configFile";
+import Diagnostics, { IDiagnostic } from "./Diagnostics";
+import { diffRouters, printApiChanges } from "./diff";
+import { parseRoutersDump } from "./dump";
+import { filterFiles, IRouterFilter, NO_ROUTER_FILTER } from "./filters";
+import { createMockHandler } from "./mock";
+import { DEFAULT_OPENAPI_OPTIONS } from "./openapi";
+import { DEFAULT_MARKER, IFrontendOptions } from "./RoutesFrontend";
+import { IExportedRouter } from "./types";
+import { watchRouters } from "./watch";
+
+export { extractRouters, IExtractResult, IRenderOptions, readTsConfig, render, RenderFormat } from "./api";
+export { IDiagnostic } from "./Diagnostics";
+export { filterFiles, IRouterFilter, NO_ROUTER_FILTER } from "./filters";
+export { IFrontendOptions } from "./RoutesFrontend";
+export * from "./types";
+export { IRoutersWatch, IWatchUpdate, watchRouters } from "./watch";
+
+// tslint:disable no-console
+
+interface IParseResult {
+    routers: IExportedRouter[];
+    errors: number;
+    warnings: number;
+}
 
-interface IMethodCallInfo {
-    authorization: IExportedRouteMethod["authorization"];
-    body: IExportedRouteMethod["body"];
-    name: IExportedRouteMethod["name"];
-    params: IExportedRouteMethod["params"];
-    query: IExportedRouteMethod["query"];
-    responses: IExportedRouteMethod["responses"];
+/**
+ * Parse the routers of the input files, printing any diagnostics. If a dump is given as input, the
+ * routers are read from it instead.
+ */
+function parseRouters(cmdOpts: IOptions, options: ts.CompilerOptions): IParseResult {
+    if (cmdOpts.fromFile !== null) {
+        return { errors: 0, routers: loadRoutersDump(cmdOpts.fromFile), warnings: 0 };
+    }
+    const program = ts.createProgram(cmdOpts.files, options);
+    const { diagnostics, routers } = extractRouters(program, cmdOpts.files, getFrontendOptions(cmdOpts));
+    return { ...reportDiagnostics(diagnostics), routers };
 }
 
-interface IImportMap {
-    [importingModule: string]: {
-        [importedAs: string]: [string, string]; // module + name of the imported identifier
+function getFrontendOptions(cmdOpts: IOptions): IFrontendOptions {
+    return {
+        customMethods: cmdOpts.customMethods,
+        filter: cmdOpts.filter,
+        inferParams: cmdOpts.inferParams,
+        marker: cmdOpts.marker,
     };
 }
-class RoutesFrontend {
-    public static getIdentifierName(id: ts.Identifier | { unescapedText: string }): string {
-        if ("unescapedText" in id && typeof id.unescapedText === "string") {
-            return id.unescapedText;
-        }
-        if ("text" in id && typeof id.text === "string") {
-            return id.text;
-        }
-        if ("escapedText" in id && typeof id.escapedText === "string") {
-            return id.escapedText;
-        }
-        throw new Error("Failed to get type from identifier " + JSON.stringify(id));
-    }
-    public static showEntityName(entity: ts.EntityName): string {
-        if (entity.kind === ts.SyntaxKind.Identifier) {
-            const i = entity as ts.Identifier;
-            return RoutesFrontend.getIdentifierName(i);
-        }
-        const q = entity as ts.QualifiedName;
-        const left = RoutesFrontend.showEntityName(q.left);
-        return `${left}.${RoutesFrontend.getIdentifierName(q.right)}`;
-    }
-
-    private static mergeDocumentation(acc: IDocumented, doc: IDocumented): IDocumented {
-        if (acc.documentation !== null && doc.documentation !== null) {
-            return {
-                documentation: acc.documentation + doc.documentation,
-            };
-        }
-        if (acc.documentation !== null) {
-            return acc;
-        }
-        return doc;
-    }
-
-    public static getDocumentation(node: ts.Node): IDocumented {
-        if (ts.isJSDoc(node)) {
-            if (node.comment !== undefined) {
-                return {
-                    documentation: node.comment,
-                };
-            }
-        }
-        if ("jsDoc" in node) {
-            const { jsDoc } = node as { jsDoc: ts.Node[] };
-            return jsDoc.map(RoutesFrontend.getDocumentation).reduce(RoutesFrontend.mergeDocumentation);
-        }
-        return {
-            documentation: null,
-        };
-    }
-
-    public static getRouterBase(doc: IDocumented): string | null {
-        if (doc.documentation === null) {
-            return null;
-        }
-        const m = doc.documentation.match(/#ExportRoute\((".*")\)/);
-        if (m === null || m[1] === undefined) {
-            return null;
-        }
-        try {
-            const s = JSON.parse(m[1]);
-            if (typeof s === "string") {
-                // strip the comment from the documentation
-                doc.documentation = doc.documentation.replace(/#ExportRoute\(".*"\)/, "").trim();
-                return s;
-            }
-            return null;
-        } catch (error) {
-            return null;
-        }
-    }
-
-    private readonly program: ts.Program;
-    private currentModule: string | null;
-    private currentSourceFile: ts.SourceFile | null;
-    private imports: IImportMap;
-    public constructor(program: ts.Program) {
-        this.program = program;
-        this.currentModule = null;
-        this.currentSourceFile = null;
-        this.imports = {};
-        this.prepareImports();
-    }
-
-    private prepareImports() {
-        for (const sourceFile of this.program.getSourceFiles()) {
-            if (sourceFile === undefined) {
-                continue;
-            }
-            const resolvedImports = getResolvedModules(sourceFile);
-            sourceFile.forEachChild((node: ts.Node) => {
-                if (node.kind === ts.SyntaxKind.ImportDeclaration) {
-                    const importDecl = node as ts.ImportDeclaration;
-                    const { importClause, moduleSpecifier } = importDecl;
-                    if (importClause === undefined || importClause.namedBindings === undefined) {
-                        return;
-                    }
-                    const importName = parseModuleSpecifier(moduleSpecifier);
-                    if (resolvedImports[importName] === undefined) {
-                        console.error(`Failed to resolve import of ${importName} in ${sourceFile.fileName}`);
-                        // throw new Error(`Failed to resolve import of ${importName} in ${sourceFile.fileName}`);
-                        return;
-                    }
-                    const { namedBindings } = importClause;
-                    switch (namedBindings.kind) {
-                        case ts.SyntaxKind.NamedImports: {
-                            const namedImports = namedBindings as ts.NamedImports;
-                            for (const namedImport of namedImports.elements) {
-                                const importAs = RoutesFrontend.getIdentifierName(namedImport.name);
-                                const importedName = namedImport.propertyName === undefined
-                                    ? importAs
-                                    : RoutesFrontend.getIdentifierName(namedImport.propertyName);
-                                this.addImport(
-                                    getSourceFilePath(sourceFile),
-                                    resolvedImports[importName],
-                                    importAs,
-                                    importedName,
-                                );
-                            }
-                            break;
-                        }
-                        case ts.SyntaxKind.NamespaceImport: {
-                            const namespaceImport = namedBindings as ts.NamespaceImport;
-                            const namespace = RoutesFrontend.getIdentifierName(namespaceImport.name);
-                            this.addImport(
-                                getSourceFilePath(sourceFile),
-                                resolvedImports[importName],
-                                namespace,
-                                namespace,
-                            );
-                            break;
-                        }
-                        default:
-                            return;
-                    }
-                }
-            });
-        }
-    }
 
-    public addImport(importingModule: string, importedModule: string, importedAs: string, originalName: string) {
-        if (this.imports[importingModule] === undefined) {
-            this.imports[importingModule] = {};
-        }
-        this.imports[importingModule][importedAs] = [importedModule, originalName];
-    }
-
-    public setCurrentModule(moduleName: string | null, sourceFile: ts.SourceFile | null) {
-        this.currentModule = moduleName;
-        this.currentSourceFile = sourceFile;
-    }
-
-    public getCurrentSourceFile(): ts.SourceFile {
-        if (this.currentSourceFile !== null) {
-            return this.currentSourceFile;
-        }
-        throw new Error("No source file set");
-    }
-
-    private lookupNode(moduleName: string, nodeName: string): [string, ts.SourceFile, ts.Node] | null {
-        const nodePath: ts.Path = moduleName as ts.Path;
-        const sourceFile: ts.SourceFile | undefined = this.program.getSourceFileByPath(nodePath);
-        if (sourceFile === undefined) {
-            return null;
-        }
-        for (const stmt of sourceFile.statements) {
-            switch (stmt.kind) {
-                case ts.SyntaxKind.VariableDeclaration: {
-                    const decl = stmt as ts.Node as ts.VariableDeclaration;
-                    if (decl.name.kind === ts.SyntaxKind.Identifier &&
-                        RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                        return [moduleName, sourceFile, decl];
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.VariableDeclarationList: {
-                    const decls = stmt as ts.Node as ts.VariableDeclarationList;
-                    for (const decl of decls.declarations) {
-                        if (decl.name.kind === ts.SyntaxKind.Identifier &&
-                            RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                            return [moduleName, sourceFile, decl];
-                        }
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.FunctionDeclaration: {
-                    const decl = stmt as ts.FunctionDeclaration;
-                    if (decl.name !== undefined && RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                        return [moduleName, sourceFile, decl];
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.ClassDeclaration: {
-                    const decl = stmt as ts.ClassDeclaration;
-                    if (decl.name !== undefined && RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                        return [moduleName, sourceFile, decl];
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.InterfaceDeclaration: {
-                    const decl = stmt as ts.InterfaceDeclaration;
-                    if (RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                        return [moduleName, sourceFile, decl];
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.TypeAliasDeclaration: {
-                    const decl = stmt as ts.TypeAliasDeclaration;
-                    if (RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                        return [moduleName, sourceFile, decl];
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.EnumDeclaration: {
-                    const decl = stmt as ts.EnumDeclaration;
-                    if (RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                        return [moduleName, sourceFile, decl];
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.NamespaceExportDeclaration: {
-                    const decl = stmt as ts.NamespaceExportDeclaration;
-                    if (RoutesFrontend.getIdentifierName(decl.name) === nodeName) {
-                        return [moduleName, sourceFile, decl];
-                    }
-                    break;
-                }
-            }
-        }
-        return null;
+/**
+ * Print the diagnostics of parsing the routers and count them.
+ */
+function reportDiagnostics(diagnostics: IDiagnostic[]): { errors: number, warnings: number } {
+    const cwd = ts.sys.getCurrentDirectory();
+    for (const diagnostic of diagnostics) {
+        console.error(Diagnostics.format(diagnostic, cwd));
     }
-
-    public lookupIdentifierInCurrentModule(identifier: string): [string, ts.SourceFile, ts.Node] | null {
-        if (this.currentModule === null) {
-            return null;
-        }
-        return this.lookupNode(this.currentModule, identifier);
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+    const warnings = diagnostics.filter((diagnostic) => diagnostic.severity === "warning").length;
+    if (errors > 0 || warnings > 0) {
+        console.error(`Found ${errors} error(s) and ${warnings} warning(s)`);
     }
+    return { errors, warnings };
+}
 
-    public lookupIdentifier(identifier: string): [string, ts.SourceFile, ts.Node] | null {
-        if (this.currentModule === null) {
-            return null;
-        }
-        if (this.imports[this.currentModule] === undefined) {
-            return this.lookupIdentifierInCurrentModule(identifier);
-        }
-        if (this.imports[this.currentModule][identifier] === undefined) {
-            return this.lookupIdentifierInCurrentModule(identifier);
-        }
-        const [targetModule, targetName] = this.imports[this.currentModule][identifier];
-        return this.lookupNode(targetModule, targetName);
+/**
+ * Read the routers from a dump written with --json, exiting if it can not be read.
+ */
+function loadRoutersDump(fileName: string): IExportedRouter[] {
+    try {
+        return parseRoutersDump(ts.sys.readFile(fileName) || "", path.dirname(fileName));
+    } catch (error) {
+        console.error(`Failed to read ${fileName}: ${error.message}`);
+        return process.exit(1);
     }
+}
 
-    public lookupEntity(entity: ts.EntityName): [string, ts.SourceFile, ts.Node] | null {
-        if (entity.kind === ts.SyntaxKind.Identifier) {
-            const i = entity as ts.Identifier;
-            return this.lookupIdentifier(RoutesFrontend.getIdentifierName(i));
-        }
-        const q = entity as ts.QualifiedName;
-        const left = this.lookupEntity(q.left);
-        if (left === null) {
-            return null;
-        }
-        const [newModule, newSourceFile, baseType] = left;
-        const rightName = RoutesFrontend.getIdentifierName(q.right);
-        switch (baseType.kind) {
-            case ts.SyntaxKind.InterfaceDeclaration:
-            case ts.SyntaxKind.TypeLiteral: {
-                const { members } = baseType as ts.InterfaceDeclaration | ts.TypeLiteralNode;
-                for (const member of members) {
-                    if (member.name !== undefined &&
-                        member.kind === ts.SyntaxKind.PropertySignature &&
-                        RoutesFrontend.getMemberName(member as ts.PropertySignature) === rightName) {
-                        return [newModule, newSourceFile, member];
-                    }
-                }
-                break;
+/**
+ * Print the outputs requested by the options, by the name of the file they are written to.
+ */
+function printOutputs(routers: IExportedRouter[], cmdOpts: IOptions): { [fileName: string]: string } {
+    const outputs: { [fileName: string]: string } = {};
+    for (const target of cmdOpts.outputs) {
+        if (DIRECTORY_FORMATS.includes(target.format)) {
+            const files = render(routers, target.format, target);
+            for (const fileName of Object.keys(files)) {
+                outputs[path.join(target.path, fileName)] = files[fileName];
             }
-            case ts.SyntaxKind.ObjectLiteralExpression: {
-                const { properties } = baseType as ts.ObjectLiteralExpression;
-                for (const property of properties) {
-                    switch (property.kind) {
-                        case ts.SyntaxKind.PropertyAssignment: {
-                            if (RoutesFrontend.getMemberName(property as ts.PropertyAssignment) === rightName) {
-                                return [newModule, newSourceFile, property];
-                            }
-                            break;
-                        }
-                        case ts.SyntaxKind.ShorthandPropertyAssignment: {
-                            if (RoutesFrontend.getMemberName(
-                                    property as ts.ShorthandPropertyAssignment,
-                                ) === rightName) {
-                                return [newModule, newSourceFile, property];
-                            }
-                            break;
-                        }
-                        case ts.SyntaxKind.MethodDeclaration: {
-                            if (RoutesFrontend.getMemberName(property as ts.MethodDeclaration) === rightName) {
-                                return [newModule, newSourceFile, property];
-                            }
-                            break;
-                        }
-                        case ts.SyntaxKind.GetAccessor:
-                        case ts.SyntaxKind.SetAccessor: {
-                            if (RoutesFrontend.getMemberName(property as ts.AccessorDeclaration) === rightName) {
-                                return [newModule, newSourceFile, property];
-                            }
-                            break;
-                        }
-                    }
-                }
-                break;
-            }
-        }
-        return null;
-    }
-
-    private performKeyOf(type: Type): IStringType {
-        if ("objectMembers" in type) {
-            return {
-                documentation: type.documentation,
-                name: type.name,
-                strings: Object.keys(type.objectMembers),
-            };
-        } else if ("intersection" in type) {
-            return {
-                documentation: type.documentation,
-                name: type.name,
-                strings: type.intersection.map((t) => this.performKeyOf(t).strings).reduce(
-                    (acc: IStringType["strings"], strings) => {
-                        if (strings === "all") {
-                            return acc;
-                        }
-                        if (acc === "all") {
-                            return strings;
-                        }
-                        return acc.filter((s) => strings.includes(s));
-                    }, "all"),
-            };
-        } else if ("union" in type) {
-            return {
-                documentation: type.documentation,
-                name: type.name,
-                strings: type.union.map((t) => this.performKeyOf(t).strings).reduce(
-                    (acc: IStringType["strings"], strings) => {
-                        if (strings === "all" || acc === "all") {
-                            return "all";
-                        }
-                        return acc.concat(strings.filter((s) => !acc.includes(s)));
-                    }, []),
-            };
         } else {
-            throw new Error(`Failed to perform keyof on ${stringify(type)}`);
-        }
-    }
-
-    private parseType(type: ts.Node, name: string | null, isKeyof: boolean): Type {
-        try {
-            switch (type.kind) {
-                case ts.SyntaxKind.BooleanKeyword:
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        booleans: "all",
-                        name,
-                    };
-                case ts.SyntaxKind.NumberKeyword:
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        numbers: "all",
-                    };
-                case ts.SyntaxKind.StringKeyword:
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        strings: "all",
-                    };
-                case ts.SyntaxKind.ObjectKeyword:
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        objectMembers: {},
-                    };
-                case ts.SyntaxKind.NullKeyword:
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        null: true,
-                    };
-                case ts.SyntaxKind.UndefinedKeyword:
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        undefined: true,
-                    };
-                case ts.SyntaxKind.FunctionType: {
-                    if (isKeyof) {
-                        // We return an empty type to allow keyof to function correctly
-                        // (so you can take the key of functions, even if the functions
-                        // are not part of the object passed along the web API)
-                        return {
-                            documentation: null,
-                            intersection: [],
-                            name: null,
-                        };
-                    }
-                    throw TypeParseFailure.badType(type, this.getCurrentSourceFile());
-                }
-                case ts.SyntaxKind.ArrayType: {
-                    const array = type as ts.ArrayTypeNode;
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        arrayMembers: this.parseType(array.elementType, null, isKeyof),
-                        name,
-                    };
-                }
-                case ts.SyntaxKind.LiteralType: {
-                    const literal = type as ts.LiteralTypeNode;
-                    switch (literal.literal.kind) {
-                        case ts.SyntaxKind.TrueKeyword:
-                        case ts.SyntaxKind.FalseKeyword:
-                            return {
-                                ...RoutesFrontend.getDocumentation(type),
-                                booleans: [literal.literal.kind === ts.SyntaxKind.TrueKeyword],
-                                name,
-                            };
-                        case ts.SyntaxKind.NumericLiteral: {
-                            const numLiteral = literal.literal as ts.NumericLiteral;
-                            return {
-                                ...RoutesFrontend.getDocumentation(type),
-                                name,
-                                numbers: [Number(numLiteral.text)],
-                            };
-                        }
-                        case ts.SyntaxKind.StringLiteral: {
-                            const numLiteral = literal.literal as ts.StringLiteral;
-                            return {
-                                ...RoutesFrontend.getDocumentation(type),
-                                name,
-                                strings: [numLiteral.text],
-                            };
-                        }
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.TupleType: {
-                    const tuple = type as ts.TupleTypeNode;
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        tupleMembers: tuple.elementTypes.map((member) =>
-                            this.parseType(member, null, isKeyof),
-                        ),
-                    };
-                }
-                case ts.SyntaxKind.TypeReference: {
-                    const ref = type as ts.TypeReferenceNode;
-                    const r = this.lookupEntity(ref.typeName);
-                    if (r === null) {
-                        return {
-                            ...RoutesFrontend.getDocumentation(type),
-                            name: RoutesFrontend.showEntityName(ref.typeName),
-                            objectMembers: {},
-                        };
-                    }
-                    const oldModule = this.currentModule;
-                    const oldSourceFile = this.currentSourceFile;
-                    const [newModule, newSourceFile, newType] = r;
-                    this.setCurrentModule(newModule, newSourceFile);
-                    try {
-                        return this.parseType(
-                            newType,
-                            name === null ? RoutesFrontend.showEntityName(ref.typeName) : name,
-                            isKeyof,
-                        );
-                    } finally {
-                        this.setCurrentModule(oldModule, oldSourceFile);
-                    }
-                }
-                case ts.SyntaxKind.ExpressionWithTypeArguments: {
-                    const ex = type as ts.ExpressionWithTypeArguments;
-                    const identifier = RoutesFrontend.getIdentifierName(ex.expression as any);
-                    const r = this.lookupIdentifier(identifier);
-                    if (r !== null) {
-                        const oldModule = this.currentModule;
-                        const oldSourceFile = this.currentSourceFile;
-                        const [newModule, newSourceFile, newType] = r;
-                        this.setCurrentModule(newModule, newSourceFile);
-                        try {
-                            return this.parseType(
-                                newType,
-                                name === null ? identifier : name,
-                                isKeyof,
-                            );
-                        } finally {
-                            this.setCurrentModule(oldModule, oldSourceFile);
-                        }
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.TypeOperator: {
-                    const { operator, type: innerType } = type as ts.TypeOperatorNode;
-                    if (operator === ts.SyntaxKind.KeyOfKeyword) {
-                        const parsedType = this.parseType(innerType, null, true);
-                        return {
-                            ...this.performKeyOf(parsedType),
-                            ...RoutesFrontend.getDocumentation(type),
-                            name,
-                        };
-                    }
-                    break;
-                }
-                case ts.SyntaxKind.TypeLiteral: {
-                    const objectMembers: IObjectType["objectMembers"] = {};
-                    const { members } = type as ts.TypeLiteralNode;
-                    for (const member of members) {
-                        if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
-                            continue;
-                        }
-                        const { type: memberType, questionToken } = member as ts.PropertySignature;
-                        const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
-                        if (nameString === null || type === undefined) {
-                            continue;
-                        }
-                        objectMembers[nameString] = this.parseType(memberType as ts.Node, null, isKeyof);
-                        if (questionToken !== undefined) {
-                            objectMembers[nameString] = {
-                                documentation: null,
-                                name: null,
-                                union: [objectMembers[nameString], {
-                                    undefined: true,
-                                }],
-                            };
-                        }
-                    }
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        objectMembers,
-                    };
-                }
-                case ts.SyntaxKind.InterfaceDeclaration: {
-                    let objectMembers: IObjectType["objectMembers"] = {};
-                    const { heritageClauses, members } = type as ts.InterfaceDeclaration;
-                    for (const member of members) {
-                        if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
-                            continue;
-                        }
-                        const { type: memberType, questionToken } = member as ts.PropertySignature;
-                        const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
-                        if (nameString === null || type === undefined) {
-                            continue;
-                        }
-                        objectMembers[nameString] = this.parseType(memberType as ts.Node, null, isKeyof);
-                        if (questionToken !== undefined) {
-                            objectMembers[nameString] = {
-                                documentation: null,
-                                name: null,
-                                union: [objectMembers[nameString], {
-                                    undefined: true,
-                                }],
-                            };
-                        }
-                    }
-                    if (heritageClauses !== undefined) {
-                        for (const heritageClause of heritageClauses) {
-                            for (const parentType of heritageClause.types) {
-                                const parsedType = this.parseType(parentType, null, isKeyof);
-                                if ("objectMembers" in parsedType) {
-                                    objectMembers = {
-                                        ...objectMembers,
-                                        ...parsedType.objectMembers,
-                                    };
-                                }
-                            }
-                        }
-                    }
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        objectMembers,
-                    };
-                }
-                case ts.SyntaxKind.EnumDeclaration: {
-                    const union: Type[] = [];
-                    const { members } = type as ts.EnumDeclaration;
-                    let memberCounter = 0;
-                    for (const member of members) {
-                        if (member.initializer !== undefined) {
-                            switch (member.initializer.kind) {
-                                case ts.SyntaxKind.NumericLiteral:
-                                    union.push({
-                                        ...RoutesFrontend.getDocumentation(member),
-                                        name: null,
-                                        numbers: [parseInt((member.initializer as ts.NumericLiteral).text, 10)],
-                                    });
-                                    break;
-                                case ts.SyntaxKind.StringLiteral:
-                                    union.push({
-                                        ...RoutesFrontend.getDocumentation(member),
-                                        name: null,
-                                        strings: [(member.initializer as ts.StringLiteral).text],
-                                    });
-                                    break;
-                                default:
-                                    throw new Error("Unknown enum member kind");
-                            }
-                        } else {
-                            union.push({
-                                ...RoutesFrontend.getDocumentation(member),
-                                name: null,
-                                numbers: [memberCounter],
-                            });
-                        }
-                        memberCounter++;
-                    }
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        union,
-                    };
-                }
-                case ts.SyntaxKind.UnionType: {
-                    const union = type as ts.UnionTypeNode;
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        name,
-                        union: union.types.map((subType) => this.parseType(subType, null, isKeyof)),
-                    };
-                }
-                case ts.SyntaxKind.IntersectionType: {
-                    const intersection = type as ts.IntersectionTypeNode;
-                    return {
-                        ...RoutesFrontend.getDocumentation(type),
-                        intersection: intersection.types.map((subType) => this.parseType(subType, null, isKeyof)),
-                        name,
-                    };
-                }
-                case ts.SyntaxKind.TypeAliasDeclaration: {
-                    const { name: aliasName, type: nextType, typeParameters } = type as ts.TypeAliasDeclaration;
-                    if (typeParameters !== undefined && typeParameters.length > 0) {
-                        throw new Error("Type parameters not implemented");
-                    }
-                    const r = this.parseType(nextType, name !== null
-                        ? name
-                        : RoutesFrontend.getIdentifierName(aliasName),
-                        isKeyof,
-                    );
-                    if ("documentation" in r && r.documentation === null) {
-                        r.documentation = RoutesFrontend.getDocumentation(type).documentation;
-                    }
-                    return r;
-                }
-            }
-        } catch (error) {
-            throw TypeParseFailure.withContext(error, type, this.getCurrentSourceFile());
-        }
-        throw TypeParseFailure.unhandledType(type, this.getCurrentSourceFile());
-    }
-
-    private findMethodCallInfoOnMembers(members: ts.NodeArray<ts.TypeElement>): IMethodCallInfo {
-        const result: IMethodCallInfo = {
-            authorization: null,
-            body: null,
-            name: "UNNAMED",
-            params: [],
-            query: [],
-            responses: [],
-        };
-        for (const member of members) {
-            if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
-                continue;
-            }
-            const { type } = member as ts.PropertySignature;
-            const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
-            if (nameString === null || type === undefined) {
-                continue;
-            }
-            switch (nameString) {
-                case "authorization":
-                    result.authorization = {
-                        ...RoutesFrontend.getDocumentation(member),
-                        type: this.parseType(type, null, false),
-                    };
-                    break;
-                case "body":
-                    result.body = {
-                        ...RoutesFrontend.getDocumentation(member),
-                        type: this.parseType(type, null, false),
-                    };
-                    break;
-                case "name": {
-                    const nameType = this.parseType(type, null, false);
-                    if ("strings" in nameType && nameType.strings !== "all") {
-                        result.name = nameType.strings.join("");
-                    }
-                    break;
-                }
-                case "param": {
-                    const params: IExportedRouteMethod["params"] = [];
-                    if (type.kind === ts.SyntaxKind.TypeLiteral) {
-                        const { members: paramMembers } = type as ts.TypeLiteralNode;
-                        for (const paramMember of paramMembers) {
-                            if (paramMember.name === undefined ||
-                                paramMember.kind !== ts.SyntaxKind.PropertySignature) {
-                                continue;
-                            }
-                            const { type: paramType } = paramMember as ts.PropertySignature;
-                            const paramName: string | null = RoutesFrontend.getMemberName(
-                                paramMember as ts.PropertySignature,
-                            );
-                            if (paramName === null || paramType === undefined) {
-                                continue;
-                            }
-                            params.push({
-                                ...RoutesFrontend.getDocumentation(paramMember),
-                                name: paramName,
-                                type: this.parseType(paramType, null, false),
-                            });
-                        }
-                    }
-                    result.params = params;
-                    break;
-                }
-                case "query": {
-                    const query: IExportedRouteMethod["query"] = [];
-                    if (type.kind === ts.SyntaxKind.TypeLiteral) {
-                        const { members: queryMembers } = type as ts.TypeLiteralNode;
-                        for (const queryMember of queryMembers) {
-                            if (queryMember.name === undefined ||
-                                queryMember.kind !== ts.SyntaxKind.PropertySignature) {
-                                continue;
-                            }
-                            const { type: queryType, questionToken } = queryMember as ts.PropertySignature;
-                            const queryName: string | null = RoutesFrontend.getMemberName(
-                                queryMember as ts.PropertySignature,
-                            );
-                            if (queryName === null || queryType === undefined) {
-                                continue;
-                            }
-                            query.push({
-                                ...RoutesFrontend.getDocumentation(queryMember),
-                                name: queryName,
-                                required: questionToken === undefined,
-                                type: this.parseType(queryType, null, false),
-                            });
-                        }
-                    }
-                    result.query = query;
-                    break;
-                }
-                case "response": {
-                    const responses: IExportedRouteMethod["responses"] = [];
-                    if (type.kind === ts.SyntaxKind.TypeLiteral) {
-                        const { members: responseMembers } = type as ts.TypeLiteralNode;
-                        for (const responseMember of responseMembers) {
-                            if (responseMember.name === undefined ||
-                                responseMember.kind !== ts.SyntaxKind.PropertySignature) {
-                                continue;
-                            }
-                            const { type: responseType } = responseMember as ts.PropertySignature;
-                            const responseCode: string | null = RoutesFrontend.getMemberName(
-                                responseMember as ts.PropertySignature,
-                            );
-                            const responseCodeNumber = Number.parseInt(responseCode || "", 10);
-                            if (responseCode === null ||
-                                Number.isNaN(responseCodeNumber) ||
-                                responseType === undefined) {
-                                continue;
-                            }
-                            responses.push({
-                                ...RoutesFrontend.getDocumentation(responseMember),
-                                body: responseType.kind === ts.SyntaxKind.UndefinedKeyword
-                                    ? null
-                                    : this.parseType(responseType, null, false),
-                                status: responseCodeNumber,
-                            });
-                        }
-                    }
-                    result.responses = responses;
-                    break;
-                }
-                default:
-                    throw new Error(`Unknown method member ${nameString}`);
-            }
-        }
-        return result;
-    }
-
-    private findMethodCallInfo(node: ts.Node): IMethodCallInfo {
-        switch (node.kind) {
-            case ts.SyntaxKind.TypeAliasDeclaration: {
-                const { type, typeParameters } = node as ts.TypeAliasDeclaration;
-                if (typeParameters !== undefined && typeParameters.length > 0) {
-                    throw new Error("Type parameters not implemented");
-                }
-                return this.findMethodCallInfo(type);
-            }
-            case ts.SyntaxKind.InterfaceDeclaration: {
-                const { members, typeParameters } = node as ts.InterfaceDeclaration;
-                if (typeParameters !== undefined && typeParameters.length > 0) {
-                    throw new Error("Type parameters not implemented");
-                }
-                return this.findMethodCallInfoOnMembers(members);
-            }
-            case ts.SyntaxKind.TypeLiteral: {
-                const { members } = node as ts.TypeLiteralNode;
-                return this.findMethodCallInfoOnMembers(members);
-            }
-            default:
-                return {
-                    authorization: null,
-                    body: null,
-                    name: "UNNAMED",
-                    params: [],
-                    query: [],
-                    responses: [],
-                };
-        }
-    }
-
-    private methodFromNameString(s: string): IExportedRouteMethod["method"] {
-        switch (s) {
-            case "GET":
-            case "HEAD":
-            case "POST":
-            case "PUT":
-            case "DELETE":
-            case "CONNECT":
-            case "OPTIONS":
-            case "TRACE":
-                return s;
-        }
-        throw new Error(`Invalid HTTP method: ${s}`);
-    }
-
-    private findMethodsOnMembers(members: ts.NodeArray<ts.TypeElement>): IExportedRouteMethod[] {
-        const result: IExportedRouteMethod[] = [];
-        for (const member of members) {
-            if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
-                continue;
-            }
-            const { type } = member as ts.PropertySignature;
-            const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
-            if (nameString === null || type === undefined) {
-                continue;
-            }
-            const {
-                authorization,
-                body,
-                name,
-                params,
-                query,
-                responses,
-            } = this.findMethodCallInfo(type);
-            result.push({
-                ...RoutesFrontend.getDocumentation(member),
-                authorization,
-                body,
-                method: this.methodFromNameString(nameString),
-                name,
-                params,
-                query,
-                responses,
-            });
-        }
-        return result;
-    }
-
-    private findMethods(node: ts.Node): IExportedRouteMethod[] {
-        switch (node.kind) {
-            case ts.SyntaxKind.TypeAliasDeclaration: {
-                const { type, typeParameters } = node as ts.TypeAliasDeclaration;
-                if (typeParameters !== undefined && typeParameters.length > 0) {
-                    throw new Error("Type parameters not implemented");
-                }
-                return this.findMethods(type);
-            }
-            case ts.SyntaxKind.InterfaceDeclaration: {
-                const { members, typeParameters } = node as ts.InterfaceDeclaration;
-                if (typeParameters !== undefined && typeParameters.length > 0) {
-                    throw new Error("Type parameters not implemented");
-                }
-                return this.findMethodsOnMembers(members);
-            }
-            case ts.SyntaxKind.TypeLiteral: {
-                const { members } = node as ts.TypeLiteralNode;
-                return this.findMethodsOnMembers(members);
-            }
-            default:
-                return [];
+            Object.assign(outputs, render(routers, target.format, { ...target, fileName: target.path }));
         }
     }
+    return outputs;
+}
 
-    private static getMemberName(member: { name: ts.PropertyName }): string | null {
-        const { name } = member;
-        switch (name.kind) {
-            case ts.SyntaxKind.Identifier:
-                return RoutesFrontend.getIdentifierName(name as ts.Identifier);
-            case ts.SyntaxKind.StringLiteral:
-                return (name as ts.StringLiteral).text;
-            case ts.SyntaxKind.NumericLiteral:
-                return (name as ts.NumericLiteral).text;
-            case ts.SyntaxKind.ComputedPropertyName:
-                throw new Error("Can not process a computed property name as route name");
-        }
-        return null;
+function compile(cmdOpts: IOptions, options: ts.CompilerOptions): void {
+    const { errors, routers, warnings } = parseRouters(cmdOpts, options);
+    const outputs = printOutputs(routers, cmdOpts);
+    let changed = false;
+    for (const fileName of Object.keys(outputs)) {
+        changed = writeOutputFile(fileName, outputs[fileName], cmdOpts.checkUnchanged && !changed) || changed;
     }
-
-    private findRoutes(members: ts.NodeArray<ts.TypeElement>): IExportedRoute[] {
-        const result: IExportedRoute[] = [];
-        for (const member of members) {
-            if (member.name === undefined || member.kind !== ts.SyntaxKind.PropertySignature) {
-                continue;
-            }
-            const { type } = member as ts.PropertySignature;
-            const nameString: string | null = RoutesFrontend.getMemberName(member as ts.PropertySignature);
-            if (nameString === null || type === undefined) {
-                continue;
-            }
-            const methods: IExportedRouteMethod[] = this.findMethods(type);
-            result.push({
-                ...RoutesFrontend.getDocumentation(member),
-                methods,
-                route: nameString,
-            });
-        }
-        return result;
+    if (errors > 0 || (cmdOpts.strict && warnings > 0)) {
+        process.exit(1);
     }
-
-    public processRouterNode(
-        doc: IDocumented,
-        base: string,
-        parentName: string | null,
-        node: ts.Node,
-    ): IExportedRouter | null {
-        switch (node.kind) {
-            case ts.SyntaxKind.TypeAliasDeclaration: {
-                const { name, type, typeParameters } = node as ts.TypeAliasDeclaration;
-                if (typeParameters !== undefined && typeParameters.length > 0) {
-                    throw new Error("Type parameters not implemented");
-                }
-                return this.processRouterNode(doc, base, parentName !== null
-                    ? parentName
-                    : RoutesFrontend.getIdentifierName(name), type);
-            }
-            case ts.SyntaxKind.InterfaceDeclaration: {
-                const { name, members, typeParameters } = node as ts.InterfaceDeclaration;
-                if (typeParameters !== undefined && typeParameters.length > 0) {
-                    throw new Error("Type parameters not implemented");
-                }
-                const routes: IExportedRoute[] = this.findRoutes(members);
-                if (routes.length === 0) {
-                    return null;
-                }
-                return {
-                    ...doc,
-                    name: parentName !== null ? parentName : RoutesFrontend.getIdentifierName(name),
-                    routeBase: base,
-                    routes,
-                };
-            }
-            case ts.SyntaxKind.TypeLiteral: {
-                const { members } = node as ts.TypeLiteralNode;
-                const routes: IExportedRoute[] = this.findRoutes(members);
-                if (routes.length === 0) {
-                    return null;
-                }
-                return {
-                    ...doc,
-                    name: parentName !== null ? parentName : base,
-                    routeBase: base,
-                    routes,
-                };
-            }
-            default:
-                return null;
+    if (cmdOpts.checkUnchanged) {
+        if (changed) {
+            console.error("Detected file changes");
+            process.exit(2);
         }
+        console.info("No file changes detected");
     }
+    process.exit(0);
 }
 
-function getSourceFilePath(file: ts.SourceFile | { fileName: string, resolvedPath?: string, path?: string }): string {
-    if ("resolvedPath" in file && typeof file.resolvedPath === "string") {
-        return file.resolvedPath;
-    }
-    if ("path" in file && typeof file.path === "string") {
-        return file.path;
-    }
-    return file.fileName;
-}
-
-interface IImportMapEntry {
-    resolvedFileName: string;
+/**
+ * Regenerate the outputs whenever an input file changes, until the process is stopped. Only the routers
+ * depending on a changed file are parsed again and only outputs whose content changed are written.
+ */
+function watch(cmdOpts: IOptions, options: ts.CompilerOptions): void {
+    let written: { [fileName: string]: string } = {};
+    watchRouters(cmdOpts.files, options, getFrontendOptions(cmdOpts), (update) => {
+        reportDiagnostics(update.diagnostics);
+        if (update.changed.length === 0) {
+            console.info("No routers changed");
+            return;
+        }
+        const outputs = printOutputs(update.routers, cmdOpts);
+        const fileNames = Object.keys(outputs).filter((fileName) => outputs[fileName] !== written[fileName]);
+        for (const fileName of fileNames) {
+            ts.sys.writeFile(fileName, outputs[fileName]);
+        }
+        written = outputs;
+        console.info(`Routers changed: ${update.changed.join(", ")} (${fileNames.length} file(s) written)`);
+    });
+    console.info("Watching input files for changes");
 }
 
-function getResolvedModules(
-    file: ts.SourceFile | { resolvedModules?: Map<string, IImportMapEntry> },
-): { [importName: string]: string } {
-    const result: { [importName: string]: string } = {};
-    if ("resolvedModules" in file && file.resolvedModules instanceof Map) {
-        const resolvedModules: Map<string, IImportMapEntry | undefined> = file.resolvedModules;
-        resolvedModules.forEach((targetModule, importName) => {
-            if (targetModule !== undefined) {
-                result[importName] = targetModule.resolvedFileName;
+/**
+ * Serve the routers with sample data until the process is stopped, reparsing them whenever an input
+ * file or a file imported by it changes. A dump given as input is read again whenever it changes, if it
+ * can not be read (e.g. while it is being written) the previous routes are kept.
+ */
+function serveMock(cmdOpts: IOptions, options: ts.CompilerOptions): void {
+    const log = (message: string) => console.info(message);
+    const load = (routers: IExportedRouter[]) => {
+        const result = createMockHandler(routers, log);
+        reportDiagnostics(result.diagnostics);
+        return result.handler;
+    };
+    // serves no routes until the routers are loaded
+    let handler = createMockHandler([], log).handler;
+    const fromFile = cmdOpts.fromFile;
+    if (fromFile !== null) {
+        handler = load(loadRoutersDump(fromFile));
+        let reload: NodeJS.Timer | null = null;
+        fs.watch(fromFile, () => {
+            // the dump is often written in several steps, only reload once it is done
+            if (reload !== null) {
+                clearTimeout(reload);
+            }
+            reload = setTimeout(() => {
+                reload = null;
+                let routers: IExportedRouter[];
+                try {
+                    routers = parseRoutersDump(ts.sys.readFile(fromFile) || "", path.dirname(fromFile));
+                } catch (error) {
+                    console.error(`Failed to read ${fromFile}, keeping the previous routes: ${error.message}`);
+                    return;
+                }
+                console.info("Input files changed, reloading routes");
+                handler = load(routers);
+            }, 100);
+        });
+    } else {
+        watchRouters(cmdOpts.files, options, getFrontendOptions(cmdOpts), (update) => {
+            reportDiagnostics(update.diagnostics);
+            if (update.changed.length > 0) {
+                console.info(`Routers changed: ${update.changed.join(", ")}, reloading routes`);
+                handler = load(update.routers);
             }
         });
     }
-    return result;
+    const server = http.createServer((req, res) => handler(req, res));
+    server.listen(cmdOpts.port, () => console.info(`Mock server listening on http://localhost:${cmdOpts.port}`));
 }
 
-function parseModuleSpecifier(s: ts.Expression): string {
-    if (s.kind === ts.SyntaxKind.StringLiteral) {
-        const l = s as ts.StringLiteral;
-        return l.text;
+/**
+ * Compare the routers with a previous version of the API and fail if there are breaking changes.
+ */
+function diff(cmdOpts: IOptions, options: ts.CompilerOptions): void {
+    const { errors, routers } = parseRouters(cmdOpts, options);
+    const previous = loadPreviousRouters(cmdOpts, cmdOpts.against as string);
+    if (errors > 0) {
+        process.exit(1);
+    }
+    const { changes, diagnostics } = diffRouters(previous, routers);
+    if (reportDiagnostics(diagnostics).errors > 0) {
+        process.exit(1);
     }
-    throw new Error(`Invalid module specifier kind ${s.kind}`);
+    process.stdout.write(printApiChanges(changes));
+    process.exit(changes.some((change) => change.kind === "breaking") ? 1 : 0);
 }
 
-function compile(cmdOpts: IOptions, options: ts.CompilerOptions): void {
-    const program = ts.createProgram(cmdOpts.files, options);
-    const frontend = new RoutesFrontend(program);
-    const routers: IExportedRouter[] = [];
-    for (const fileName of cmdOpts.files) {
-        const sourceFile = program.getSourceFile(fileName);
-        if (sourceFile === undefined) {
-            continue;
-        }
-        frontend.setCurrentModule(getSourceFilePath(sourceFile), sourceFile);
-        sourceFile.forEachChild((node: ts.Node) => {
-            const doc = RoutesFrontend.getDocumentation(node);
-            const base = RoutesFrontend.getRouterBase(doc);
-            if (base === null) {
-                return;
-            }
-            const router = frontend.processRouterNode(doc, base, null, node);
-            if (router !== null) {
-                routers.push(router);
-            }
-        });
+/**
+ * Load the routers of a previous version of the API, either from a dump written with --json or by
+ * parsing another checkout of the project (using its tsconfig.json if there is one).
+ */
+function loadPreviousRouters(cmdOpts: IOptions, against: string): IExportedRouter[] {
+    if (ts.sys.fileExists(against)) {
+        return loadRoutersDump(against);
+    }
+    const configPath = path.join(against, "tsconfig.json");
+    // the include and exclude patterns are resolved against the current project, not the previous one
+    const previousOpts: IOptions = {
+        ...cmdOpts,
+        exclude: [],
+        files: ts.sys.fileExists(configPath) ? [] : findFilesInDir(against),
+        fromFile: null,
+        include: [],
+        tsConfig: ts.sys.fileExists(configPath) ? configPath : null,
+    };
+    const { errors, routers } = parseRouters(previousOpts, loadCompilerOptions(previousOpts));
+    if (errors > 0) {
+        console.error("Failed to parse the previous version of the API:", against);
+        process.exit(1);
     }
+    return routers;
+}
+
+/**
+ * Write a file and report whether it changed (only checked if requested).
+ */
+function writeOutputFile(fileName: string, txt: string, checkUnchanged: boolean): boolean {
     let changed = false;
-    if (cmdOpts.outputFile !== null) {
-        const txt = printMarkdownFull(routers);
-        if (cmdOpts.checkUnchanged && !changed) {
-            changed = !ts.sys.fileExists(cmdOpts.outputFile)
-                || (txt !== ts.sys.readFile(cmdOpts.outputFile, "utf-8"));
-            if (changed) {
-                console.info(`${cmdOpts.outputFile} changed`);
-            }
-        }
-        ts.sys.writeFile(cmdOpts.outputFile, txt, false);
-    }
-    if (cmdOpts.outputDirectory !== null) {
-        for (const router of routers) {
-            const txt = printMarkdown(router, true);
-            const fileName = path.join(cmdOpts.outputDirectory, router.name + ".md");
-            if (cmdOpts.checkUnchanged && !changed) {
-                changed = !ts.sys.fileExists(fileName)
-                    || (txt !== ts.sys.readFile(fileName, "utf-8"));
-                if (changed) {
-                    console.info(`${fileName} changed`);
-                }
-            }
-            ts.sys.writeFile(fileName, txt);
-        }
-    }
-    if (cmdOpts.checkUnchanged) {
+    if (checkUnchanged) {
+        changed = !ts.sys.fileExists(fileName)
+            || (txt !== ts.sys.readFile(fileName, "utf-8"));
         if (changed) {
-            console.error("Detected file changes");
-            process.exit(2);
+            console.info(`${fileName} changed`);
         }
-        console.info("No file changes detected");
     }
-    process.exit(0);
+    ts.sys.writeFile(fileName, txt);
+    return changed;
 }
 
 interface IOptions {
+    against: string | null;
     checkUnchanged: boolean;
+    command: "generate" | "mock" | "diff";
+    customMethods: string[];
+    // absolute glob patterns of input files to skip
+    exclude: string[];
     files: string[];
+    filter: IRouterFilter;
+    // routers read from a dump instead of parsing the files
+    fromFile: string | null;
+    // absolute glob patterns of input files to use (all if empty)
+    include: string[];
+    inferParams: boolean;
+    marker: string;
+    outputs: IOutputTarget[];
     tsConfig: string | null;
-    outputDirectory: string | null;
-    outputFile: string | null;
+    port: number;
+    strict: boolean;
+    watch: boolean;
 }
 
+// output flags and the format they write
+const OUTPUT_FLAGS: { [flag: string]: RenderFormat } = {
+    client: "client",
+    html: "html",
+    json: "json",
+    jsonschema: "jsonschema",
+    openapi: "openapi",
+    outdir: "markdown-routers",
+    output: "markdown",
+    server: "server",
+    validators: "validators",
+};
+
 function findFilesInDir(dir: string): string[] {
-    const childs = ts.sys.getDirectories(dir).map((entry) => path.join(dir, entry));
+    const childs = ts.sys.getDirectories(dir).filter((entry) => entry !== "node_modules")
+        .map((entry) => path.join(dir, entry));
     const files = fs.readdirSync(dir).map((entry) =>
         path.isAbsolute(entry) ? entry : path.join(dir, entry),
     ).filter((entry) => ts.sys.fileExists(entry) && /\.tsx?$/.test(entry));
     return files.concat(...childs.map(findFilesInDir));
 }
 
+// split a comma separated list of a flag
+function splitList(arg: string): string[] {
+    return arg.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
 function parseOptions(args: string[]): IOptions {
     const argMap: {
         [arg: string]: string;
@@ -1129,22 +312,64 @@ function parseOptions(args: string[]): IOptions {
     const directories: string[] = [];
     const cwd = ts.sys.getCurrentDirectory();
 
+    const first = args[0];
+    const command: IOptions["command"] = first === "mock" || first === "diff" ? first : "generate";
+    if (command !== "generate") {
+        args = args.slice(1);
+    }
+
     if (args.includes("--help")) {
         console.info(`Usage: docroutes [FLAGS] [FILES | DIRECTORIES]
+       docroutes mock [FLAGS] [FILES | DIRECTORIES]
+       docroutes diff --against [FILE | DIR] [FLAGS] [FILES | DIRECTORIES]
+
+The mock command serves the routes with sample data on a local HTTP server, reloading them whenever
+an input file or a file imported by it changes. Requests not matching the declared types are rejected
+with 400, the status of a response can be picked with the X-Mock-Status header.
+
+The diff command compares the routes with a previous version of the API (a dump written with --json
+or the directory of another checkout) and fails if there are breaking changes. --include and --exclude
+only select the current input files, the previous version is read as a whole.
 
 Options:
     --help:                     Show this help
     --outdir [DIR]:             Set the output directory
     --output [FILE]:            Set a single output file (all output is concatenated)
+    --openapi [FILE]:           Write an OpenAPI 3.0 document (YAML for .yaml/.yml files, JSON otherwise)
+    --apiTitle [TITLE]:         Title of the API in the OpenAPI document (default Routes)
+    --apiVersion [VERSION]:     Version of the API in the OpenAPI document (default 0.0.0)
+    --jsonschema [DIR]:         Write a JSON Schema (draft-07) file for every named type to this directory
+    --html [DIR]:               Write a static HTML documentation site to this directory
+    --json [FILE]:              Write the parsed routers as versioned JSON, e.g. for other tools
+    --from [FILE]:              Read the routers from a file written with --json instead of the TypeScript files
+    --client [FILE]:            Write a TypeScript module with a fetch based client class for every router
+    --server [FILE]:            Write a TypeScript module with handler interfaces and Express registration functions
+    --validators [FILE]:        Write a JavaScript module validating requests and responses of every method
     --config [FILE | DIR]:      Specify the path to tsconfig.json
+    --configFile [FILE]:        Read settings from this file instead of the nearest docroutes.config.json
+    --marker [NAME]:            Name of the marker of routers in their documentation (default ExportRoute)
+    --include [GLOBS]:          Comma separated glob patterns, only input files matching one of them are used
+    --exclude [GLOBS]:          Comma separated glob patterns of input files to skip (e.g. **/*.spec.ts)
+    --routers [NAMES]:          Comma separated names of the routers to document, * matches any characters
+    --routeBases [PREFIXES]:    Comma separated route prefixes, only routers below one of them are documented
+    --tags [TAGS]:              Comma separated JSDoc tags, only routers with one of them are documented (e.g. public)
+    --excludeTags [TAGS]:       Comma separated JSDoc tags of routers not to document (e.g. internal)
+    --methods [METHODS]:        Comma separated list of additional HTTP methods routes may use (e.g. PROPFIND,MKCOL)
     --checkUnchanged            Check whether any file changes were made and return failure if so.
                                 You can use this option to ensure files are up to date (e.g., in CI)
+    --strict                    Return failure if there are warnings (errors always fail the run)
+    --watch                     Keep running and regenerate the outputs whenever an input file changes
+    --inferParams               Document route placeholders (/todo/:id) without a declared param as string
+    --sharedTypes               Print named types once in a Types section of the Markdown output and link them
+    --inlineThreshold [LINES]:  Still inline named types with at most this many lines (with --sharedTypes)
+    --port [PORT]:              Port of the mock server (default 3000)
+    --against [FILE | DIR]:     Previous version of the API to compare the routes with (diff command)
 
 Any additional files or directories specified will be used as inputs to the typescript compiler.
 `);
         process.exit(1);
     }
-    const singleArgs: string[] = ["checkUnchanged"];
+    const singleArgs: string[] = ["checkUnchanged", "inferParams", "sharedTypes", "strict", "watch"];
     for (let i = 0; i < args.length; i++) {
         const arg = args[i];
         if (arg.slice(0, 2) === "--") {
@@ -1170,62 +395,173 @@ Any additional files or directories specified will be used as inputs to the type
             process.exit(1);
         }
     }
+    const configFile = argMap.configFile !== undefined
+        ? path.resolve(cwd, argMap.configFile)
+        : ts.findConfigFile(cwd, ts.sys.fileExists, CONFIG_FILE_NAME) || null;
+    const config = configFile !== null ? loadConfigFile(configFile) : null;
+    if (config !== null && config.inputs !== null && files.length === 0 && directories.length === 0) {
+        for (const input of config.inputs) {
+            if (ts.sys.directoryExists(input)) {
+                directories.push(input);
+            } else if (ts.sys.fileExists(input)) {
+                files.push(input);
+            } else {
+                console.error(`${configFile}: No such file or directory:`, input);
+                process.exit(1);
+            }
+        }
+    }
     const result: IOptions = {
+        against: null,
         checkUnchanged: false,
+        command,
+        customMethods: [],
+        exclude: [],
         files: files.concat(...directories.map(findFilesInDir)),
-        outputDirectory: null,
-        outputFile: null,
+        filter: NO_ROUTER_FILTER,
+        fromFile: null,
+        include: [],
+        inferParams: false,
+        marker: DEFAULT_MARKER,
+        outputs: [],
+        port: 3000,
+        strict: false,
         tsConfig: null,
+        watch: false,
     };
+    if (config !== null) {
+        // command line flags override the config file
+        result.checkUnchanged = config.checkUnchanged !== null ? config.checkUnchanged : result.checkUnchanged;
+        result.customMethods = config.methods !== null ? config.methods : result.customMethods;
+        result.exclude = config.exclude !== null ? config.exclude : result.exclude;
+        result.filter = config.filter;
+        result.include = config.include !== null ? config.include : result.include;
+        result.inferParams = config.inferParams !== null ? config.inferParams : result.inferParams;
+        result.marker = config.marker !== null ? config.marker : result.marker;
+        result.outputs = config.outputs !== null ? config.outputs : result.outputs;
+        result.strict = config.strict !== null ? config.strict : result.strict;
+        result.tsConfig = config.tsConfig !== null ? findTsConfig(config.tsConfig) : result.tsConfig;
+    }
+    const outputs: IOutputTarget[] = [];
+    let sharedTypes: boolean | null = null;
+    let inlineThreshold: number | null = null;
+    let title: string | null = null;
+    let version: string | null = null;
     for (const switchName of Object.keys(argMap)) {
+        if (OUTPUT_FLAGS[switchName] !== undefined) {
+            const arg = argMap[switchName];
+            const fullPath = path.isAbsolute(arg) ? arg : path.join(cwd, arg);
+            outputs.push({
+                ...DEFAULT_OPENAPI_OPTIONS,
+                format: OUTPUT_FLAGS[switchName],
+                inlineThreshold: 0,
+                path: fullPath,
+                sharedTypes: false,
+            });
+            continue;
+        }
         switch (switchName) {
             case "checkUnchanged":
                 result.checkUnchanged = true;
                 break;
-            case "outdir": {
-                const arg = argMap[switchName];
-                const fullPath = path.isAbsolute(arg) ? arg : path.join(cwd, arg);
-                if (ts.sys.directoryExists(fullPath)) {
-                    result.outputDirectory = fullPath;
-                } else if (ts.sys.fileExists(fullPath)) {
-                    console.error("File exists, expected directory:", fullPath);
+            case "strict":
+                result.strict = true;
+                break;
+            case "watch":
+                result.watch = true;
+                break;
+            case "inferParams":
+                result.inferParams = true;
+                break;
+            case "sharedTypes":
+                sharedTypes = true;
+                break;
+            case "inlineThreshold": {
+                if (!/^[0-9]+$/.test(argMap[switchName])) {
+                    console.error("Invalid number of lines:", argMap[switchName]);
+                    process.exit(1);
+                }
+                inlineThreshold = Number(argMap[switchName]);
+                break;
+            }
+            case "apiTitle":
+                title = argMap[switchName];
+                break;
+            case "apiVersion":
+                version = argMap[switchName];
+                break;
+            case "methods": {
+                const methods = splitList(argMap[switchName]).map((method) => method.toUpperCase());
+                for (const method of methods) {
+                    if (!METHOD_PATTERN.test(method)) {
+                        console.error("Invalid HTTP method:", method);
+                        process.exit(1);
+                    }
+                }
+                result.customMethods = methods;
+                break;
+            }
+            case "include":
+                result.include = splitList(argMap[switchName]).map((pattern) => path.resolve(cwd, pattern));
+                break;
+            case "exclude":
+                result.exclude = splitList(argMap[switchName]).map((pattern) => path.resolve(cwd, pattern));
+                break;
+            case "routers":
+                result.filter = { ...result.filter, names: splitList(argMap[switchName]) };
+                break;
+            case "routeBases":
+                result.filter = { ...result.filter, routeBases: splitList(argMap[switchName]) };
+                break;
+            case "tags":
+                result.filter = { ...result.filter, tags: splitList(argMap[switchName]) };
+                break;
+            case "excludeTags":
+                result.filter = { ...result.filter, excludeTags: splitList(argMap[switchName]) };
+                break;
+            case "marker": {
+                if (!MARKER_PATTERN.test(argMap[switchName])) {
+                    console.error("Invalid marker, expected an identifier:", argMap[switchName]);
                     process.exit(1);
-                } else {
-                    result.outputDirectory = fullPath;
-                    ts.sys.createDirectory(fullPath);
                 }
+                result.marker = argMap[switchName];
                 break;
             }
-            case "output": {
+            case "configFile":
+                // already loaded
+                break;
+            case "from": {
                 const arg = argMap[switchName];
                 const fullPath = path.isAbsolute(arg) ? arg : path.join(cwd, arg);
-                if (ts.sys.directoryExists(fullPath)) {
-                    console.error("Directory exists, expected file:", fullPath);
+                if (!ts.sys.fileExists(fullPath)) {
+                    console.error("No such file:", fullPath);
                     process.exit(1);
                 }
-                result.outputFile = fullPath;
+                result.fromFile = fullPath;
                 break;
             }
-            case "config": {
+            case "against": {
                 const arg = argMap[switchName];
                 const fullPath = path.isAbsolute(arg) ? arg : path.join(cwd, arg);
-                if (ts.sys.directoryExists(fullPath)) {
-                    const configPath = path.join(fullPath, "tsconfig.json");
-                    if (ts.sys.fileExists(configPath)) {
-                        result.tsConfig = configPath;
-                    } else if (ts.sys.directoryExists(configPath)) {
-                        console.error("Directory exists, expected file:", configPath);
-                        process.exit(1);
-                    } else {
-                        console.error("No such file:", configPath);
-                        process.exit(1);
-                    }
-                } else if (ts.sys.fileExists(fullPath)) {
-                    result.tsConfig = fullPath;
-                } else {
+                if (!ts.sys.directoryExists(fullPath) && !ts.sys.fileExists(fullPath)) {
                     console.error("No such file or directory:", fullPath);
                     process.exit(1);
                 }
+                result.against = fullPath;
+                break;
+            }
+            case "port": {
+                const port = Number(argMap[switchName]);
+                if (!/^[0-9]+$/.test(argMap[switchName]) || port > 65535) {
+                    console.error("Invalid port:", argMap[switchName]);
+                    process.exit(1);
+                }
+                result.port = port;
+                break;
+            }
+            case "config": {
+                const arg = argMap[switchName];
+                result.tsConfig = findTsConfig(path.isAbsolute(arg) ? arg : path.join(cwd, arg));
                 break;
             }
             default: {
@@ -1234,18 +570,92 @@ Any additional files or directories specified will be used as inputs to the type
             }
         }
     }
-    if (result.outputDirectory === null && result.outputFile === null) {
+    if (outputs.length > 0) {
+        result.outputs = outputs;
+    }
+    for (const target of result.outputs) {
+        target.sharedTypes = sharedTypes !== null ? sharedTypes : target.sharedTypes;
+        target.inlineThreshold = inlineThreshold !== null ? inlineThreshold : target.inlineThreshold;
+        target.title = title !== null ? title : target.title;
+        target.version = version !== null ? version : target.version;
+        checkOutputPath(target);
+    }
+    if (result.command === "diff" && result.against === null) {
+        console.error("The diff command needs a previous version of the API (--against)");
+        process.exit(1);
+    }
+    if (result.watch && (result.command !== "generate" || result.fromFile !== null || result.checkUnchanged)) {
+        console.error("--watch can not be combined with the mock or diff command, --from or --checkUnchanged");
+        process.exit(1);
+    }
+    if (result.command === "generate" && result.outputs.length === 0) {
         console.warn("No output directory specified, I won't write any files!");
     }
-    if (result.files.length === 0 && result.tsConfig === null) {
+    if (result.files.length === 0 && result.tsConfig === null && result.fromFile === null) {
         console.error("You did not specify any input files");
         process.exit(1);
     }
     return result;
 }
 
-export default function main() {
-    const opts = parseOptions(process.argv.slice(2));
+/**
+ * Read a docroutes.config.json, exiting if it is missing or invalid.
+ */
+function loadConfigFile(fileName: string): IConfigFile {
+    if (!ts.sys.fileExists(fileName)) {
+        console.error("No such file:", fileName);
+        return process.exit(1);
+    }
+    try {
+        return parseConfigFile(ts.sys.readFile(fileName) || "", fileName);
+    } catch (error) {
+        console.error(error.message);
+        return process.exit(1);
+    }
+}
+
+/**
+ * Find the tsconfig.json given as file or directory, exiting if there is none.
+ */
+function findTsConfig(fullPath: string): string {
+    if (ts.sys.directoryExists(fullPath)) {
+        const configPath = path.join(fullPath, "tsconfig.json");
+        if (ts.sys.fileExists(configPath)) {
+            return configPath;
+        } else if (ts.sys.directoryExists(configPath)) {
+            console.error("Directory exists, expected file:", configPath);
+        } else {
+            console.error("No such file:", configPath);
+        }
+    } else if (ts.sys.fileExists(fullPath)) {
+        return fullPath;
+    } else {
+        console.error("No such file or directory:", fullPath);
+    }
+    return process.exit(1);
+}
+
+/**
+ * Check the path of an output, creating the directory of formats writing several files.
+ */
+function checkOutputPath(target: IOutputTarget): void {
+    if (DIRECTORY_FORMATS.includes(target.format)) {
+        if (ts.sys.fileExists(target.path)) {
+            console.error("File exists, expected directory:", target.path);
+            process.exit(1);
+        } else if (!ts.sys.directoryExists(target.path)) {
+            ts.sys.createDirectory(target.path);
+        }
+    } else if (ts.sys.directoryExists(target.path)) {
+        console.error("Directory exists, expected file:", target.path);
+        process.exit(1);
+    }
+}
+
+/**
+ * Load the compiler options from the tsconfig.json (if any) and add the files it includes to the inputs.
+ */
+function loadCompilerOptions(opts: IOptions): ts.CompilerOptions {
     let tsConfig: ts.CompilerOptions = {
         module: ts.ModuleKind.CommonJS,
         noEmitOnError: true,
@@ -1253,8 +663,7 @@ export default function main() {
         target: ts.ScriptTarget.ES5,
     };
     if (opts.tsConfig !== null) {
-        const json = ts.parseJsonText(opts.tsConfig, ts.sys.readFile(opts.tsConfig) || "");
-        const config = ts.parseJsonSourceFileConfigFileContent(json, ts.sys, path.dirname(opts.tsConfig));
+        const config = readTsConfig(opts.tsConfig);
         tsConfig = config.options;
         opts.files = opts.files.concat(config.fileNames);
     }
@@ -1262,6 +671,25 @@ export default function main() {
     // remove any duplicates
     // (I know, this is O(n^2), but it should be fast enough)
     opts.files = opts.files.filter((file, index) => opts.files.indexOf(file) === index);
+    opts.files = filterFiles(opts.files, opts.include, opts.exclude);
+    return tsConfig;
+}
 
-    compile(opts, tsConfig);
+export default function main() {
+    const opts = parseOptions(process.argv.slice(2));
+    const tsConfig = loadCompilerOptions(opts);
+    switch (opts.command) {
+        case "mock":
+            serveMock(opts, tsConfig);
+            break;
+        case "diff":
+            diff(opts, tsConfig);
+            break;
+        default:
+            if (opts.watch) {
+                watch(opts, tsConfig);
+            } else {
+                compile(opts, tsConfig);
+            }
+    }
 }
@@ -0,0 +1,31 @@
+import { collectNamedTypes, ISchema, ISchemaOptions, schemaName, typeToInlineSchema } from "./schema";
+import { IExportedRouter } from "./types";
+
+const JSON_SCHEMA_DRAFT_07 = "http://json-schema.org/draft-07/schema#";
+
+const SCHEMA_OPTIONS: ISchemaOptions = {
+    dialect: "draft-07",
+    refPrefix: "",
+    refSuffix: ".json",
+};
+
+/**
+ * Generate one JSON Schema (draft-07) file for every named type reachable from the given routers.
+ * Named types reference each other by file name, so all files have to be placed in the same directory.
+ *
+ * Returns a map from file name to the content of the file.
+ */
+export function printJsonSchemas(routers: IExportedRouter[]): { [fileName: string]: string } {
+    const result: { [fileName: string]: string } = {};
+    const namedTypes = collectNamedTypes(routers);
+    for (const name of Object.keys(namedTypes)) {
+        const fileName = schemaName(name) + SCHEMA_OPTIONS.refSuffix;
+        // the keys are assigned one at a time to keep $schema first
+        const schema: ISchema = { $schema: JSON_SCHEMA_DRAFT_07 };
+        schema.$id = fileName;
+        schema.title = name;
+        Object.assign(schema, typeToInlineSchema(namedTypes[name], SCHEMA_OPTIONS));
+        result[fileName] = JSON.stringify(schema, undefined, 2) + "\n";
+    }
+    return result;
+}
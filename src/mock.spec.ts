@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as path from "path";
+import { parseRoutersDump } from "./dump";
+import { createMockHandler } from "./mock";
+import { IExportedRouter } from "./types";
+
+const router: IExportedRouter = {
+    documentation: null,
+    name: "IRoutes",
+    routeBase: "/api",
+    routes: [{
+        documentation: null,
+        methods: [{
+            authorization: null,
+            body: null,
+            cookies: [],
+            customMethod: false,
+            documentation: null,
+            headers: [],
+            method: "GET",
+            name: "Get item",
+            params: [{ documentation: null, name: "id", type: { documentation: null, name: null, numbers: "all" } }],
+            query: [{
+                documentation: null,
+                name: "full",
+                required: false,
+                type: { booleans: "all", documentation: null, name: null },
+            }],
+            responses: [{
+                body: {
+                    documentation: null,
+                    name: "IItem",
+                    objectMembers: {
+                        id: { documentation: null, name: null, numbers: "all" },
+                        state: { documentation: null, name: null, strings: ["open", "closed"] },
+                    },
+                },
+                documentation: null,
+                headers: [],
+                status: 200,
+            }, {
+                body: null,
+                documentation: null,
+                headers: [],
+                status: 404,
+            }],
+        }],
+        route: "/item/:id",
+    }],
+};
+
+function request(server: http.Server, requestPath: string, headers: http.OutgoingHttpHeaders = {},
+): Promise<{ status: number; body: string }> {
+    const port = (server.address() as AddressInfo).port;
+    return new Promise((resolve, reject) => {
+        http.get({ headers, path: requestPath, port }, (res) => {
+            let body = "";
+            res.on("data", (chunk) => body += chunk);
+            res.on("end", () => resolve({ body, status: res.statusCode || 0 }));
+        }).on("error", reject);
+    });
+}
+
+const root = path.join(__dirname, "..");
+
+let server: http.Server;
+let exampleServer: http.Server;
+
+beforeAll((done) => {
+    server = http.createServer(createMockHandler([router]).handler);
+    server.listen(0, "127.0.0.1", () => {
+        const routers = parseRoutersDump(fs.readFileSync(path.join(root, "example.json"), "utf8"), root);
+        exampleServer = http.createServer(createMockHandler(routers).handler);
+        exampleServer.listen(0, "127.0.0.1", done);
+    });
+});
+
+afterAll((done) => {
+    server.close(() => exampleServer.close(done));
+});
+
+test("matching requests get a sample response", async () => {
+    const response = await request(server, "/api/item/12?full=true");
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ id: 0, state: "open" });
+});
+
+test("the status can be picked with a header", async () => {
+    expect(await request(server, "/api/item/12", { "X-Mock-Status": "404" })).toEqual({ body: "", status: 404 });
+});
+
+test("invalid requests are rejected", async () => {
+    const response = await request(server, "/api/item/abc?full=maybe");
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body).errors).toEqual([
+        { message: "expected number", path: "params.id" },
+        { message: "expected boolean", path: "query.full" },
+    ]);
+    expect((await request(server, "/api/other")).status).toBe(404);
+});
+
+test("static segments take precedence over placeholders", async () => {
+    // /todo/:id is declared before /todo/list
+    const response = await request(exampleServer, "/todo/list");
+    expect(response.status).toBe(200);
+    expect(Array.isArray(JSON.parse(response.body))).toBe(true);
+});
+
+test("malformed encodings in the path are rejected", async () => {
+    const response = await request(server, "/api/item/%E0");
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({ errors: [{ message: "malformed URI encoding", path: "params" }] });
+});
+
+test("malformed encodings in cookies are rejected", async () => {
+    const response = await request(server, "/api/item/12", { Cookie: "a=%E0" });
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body)).toEqual({ errors: [{ message: "malformed URI encoding", path: "cookies" }] });
+});
+
+test("types named after their namespace are validated", async () => {
+    const namespaced: IExportedRouter = JSON.parse(JSON.stringify(router).replace(/"IItem"/g, "\"Api.IItem\""));
+    const result = createMockHandler([namespaced]);
+    expect(result.diagnostics).toEqual([]);
+    const namespacedServer = http.createServer(result.handler);
+    await new Promise((resolve) => namespacedServer.listen(0, "127.0.0.1", resolve));
+    try {
+        expect((await request(namespacedServer, "/api/item/abc")).status).toBe(400);
+    } finally {
+        namespacedServer.close();
+    }
+});
@@ -0,0 +1,201 @@
+import * as http from "http";
+import * as path from "path";
+import * as url from "url";
+import { IDiagnostic } from "./Diagnostics";
+import { uniqueIdentifier } from "./identifiers";
+import { sampleValue } from "./samples";
+import { IExportedRouteMethod, IExportedRouter } from "./types";
+import { printValidators } from "./validators";
+
+export type MockHandler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+export interface IMockResult {
+    handler: MockHandler;
+    // problems building the handler, e.g. requests which can not be validated
+    diagnostics: IDiagnostic[];
+}
+
+interface IValidationError {
+    path: string;
+    message: string;
+}
+
+// the part of a method of the generated validators module the mock server uses
+interface IMethodValidator {
+    validateRequest(request: { [name: string]: unknown }): { errors: IValidationError[] };
+}
+
+interface IMockRoute {
+    method: IExportedRouteMethod;
+    pattern: RegExp;
+    placeholders: string[];
+    // the segments of the route path, placeholders start with ":"
+    segments: string[];
+    // null if the validators could not be built, requests are not validated then
+    validator: IMethodValidator | null;
+}
+
+/**
+ * Build a request handler for a Node http server serving the routes of the given routers with sample data.
+ * Requests not matching their declared params, query parameters, headers, cookies or body are rejected
+ * with 400. Otherwise the first success status is returned, a different (declared or not) status can be
+ * requested with the X-Mock-Status header.
+ */
+export function createMockHandler(routers: IExportedRouter[], log: (message: string) => void = () => undefined,
+): IMockResult {
+    const diagnostics: IDiagnostic[] = [];
+    const routes = buildMockRoutes(routers, diagnostics);
+    const handler: MockHandler = (req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+            const status = handleMockRequest(routes, req, Buffer.concat(chunks).toString("utf8"), res);
+            log(`${req.method} ${req.url} - ${status}`);
+        });
+    };
+    return { diagnostics, handler };
+}
+
+function buildMockRoutes(routers: IExportedRouter[], diagnostics: IDiagnostic[]): IMockRoute[] {
+    // the validators are generated as a standalone module, evaluate it just like node would
+    let validators: { routers: { [router: string]: { [method: string]: IMethodValidator } } } | null = {
+        routers: {},
+    };
+    try {
+        new Function("exports", printValidators(routers))(validators);
+    } catch (error) {
+        validators = null;
+        diagnostics.push({
+            column: 0,
+            fileName: null,
+            line: 0,
+            message: `Failed to build the request validators, requests are not validated: ${error.message}`,
+            path: [],
+            severity: "error",
+        });
+    }
+    const routes: IMockRoute[] = [];
+    for (const router of routers) {
+        const methodNames: string[] = [];
+        for (const route of router.routes) {
+            const routePath = path.posix.join(router.routeBase, route.route);
+            const placeholders: string[] = [];
+            const pattern = routePath.split(/(:[A-Za-z0-9_]+)/).map((part, index) => {
+                if (index % 2 === 0) {
+                    return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+                }
+                placeholders.push(part.slice(1));
+                return "([^/]+)";
+            }).join("");
+            for (const method of route.methods) {
+                const methodName = uniqueIdentifier(method.name, methodNames);
+                methodNames.push(methodName);
+                routes.push({
+                    method,
+                    pattern: new RegExp(`^${pattern.replace(/\/$/, "")}/?$`),
+                    placeholders,
+                    segments: routePath.split("/"),
+                    validator: validators !== null ? validators.routers[router.name][methodName] : null,
+                });
+            }
+        }
+    }
+    // a static segment is more specific than a placeholder, e.g. /todo/list must not be matched by /todo/:id
+    return routes.sort(compareRoutes);
+}
+
+function compareRoutes(a: IMockRoute, b: IMockRoute): number {
+    for (let i = 0; i < a.segments.length && i < b.segments.length; i++) {
+        const aPlaceholder = a.segments[i].startsWith(":");
+        if (aPlaceholder !== b.segments[i].startsWith(":")) {
+            return aPlaceholder ? 1 : -1;
+        }
+    }
+    return 0;
+}
+
+function handleMockRequest(routes: IMockRoute[], req: http.IncomingMessage, body: string,
+                           res: http.ServerResponse): number {
+    const requestUrl = url.parse(req.url || "/", true);
+    const pathname = requestUrl.pathname || "/";
+    const matching = routes.filter((candidate) => candidate.pattern.test(pathname));
+    const route = matching.find((candidate) => candidate.method.method === req.method);
+    if (route === undefined) {
+        return sendJson(res, matching.length === 0 ? 404 : 405, {
+            errors: [{ message: `no route for ${req.method} ${pathname}`, path: "" }],
+        });
+    }
+
+    const params: { [name: string]: string } = {};
+    const match = route.pattern.exec(pathname) as RegExpExecArray;
+    let cookies: { [name: string]: string };
+    try {
+        route.placeholders.forEach((name, index) => params[name] = decodeURIComponent(match[index + 1]));
+    } catch (e) {
+        return sendJson(res, 400, { errors: [{ message: "malformed URI encoding", path: "params" }] });
+    }
+    try {
+        cookies = parseCookies(req.headers.cookie);
+    } catch (e) {
+        return sendJson(res, 400, { errors: [{ message: "malformed URI encoding", path: "cookies" }] });
+    }
+    const request: { [name: string]: unknown } = {
+        authorization: req.headers.authorization,
+        cookies,
+        headers: req.headers,
+        params,
+        query: requestUrl.query,
+    };
+    if (body !== "") {
+        try {
+            request.body = JSON.parse(body);
+        } catch (e) {
+            return sendJson(res, 400, { errors: [{ message: "expected JSON", path: "body" }] });
+        }
+    }
+    const errors = route.validator !== null ? route.validator.validateRequest(request).errors : [];
+    if (errors.length > 0) {
+        return sendJson(res, 400, { errors });
+    }
+
+    const method = route.method;
+    const requested = req.headers["x-mock-status"];
+    let status: number;
+    if (typeof requested === "string" && /^[1-5][0-9][0-9]$/.test(requested)) {
+        status = Number(requested);
+    } else {
+        const success = method.responses.find((candidate) => candidate.status >= 200 && candidate.status < 300);
+        const fallback = method.responses.length > 0 ? method.responses[0].status : 200;
+        status = success !== undefined ? success.status : fallback;
+    }
+    const response = method.responses.find((candidate) => candidate.status === status);
+    if (response !== undefined) {
+        for (const header of response.headers) {
+            res.setHeader(header.name, String(sampleValue(header.type)));
+        }
+    }
+    if (response === undefined || response.body === null || req.method === "HEAD") {
+        res.statusCode = status;
+        res.end();
+        return status;
+    }
+    return sendJson(res, status, sampleValue(response.body));
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): number {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+    return status;
+}
+
+function parseCookies(header: string | undefined): { [name: string]: string } {
+    const cookies: { [name: string]: string } = {};
+    for (const part of (header || "").split(";")) {
+        const index = part.indexOf("=");
+        if (index > 0) {
+            cookies[decodeURIComponent(part.slice(0, index).trim())] = decodeURIComponent(part.slice(index + 1).trim());
+        }
+    }
+    return cookies;
+}
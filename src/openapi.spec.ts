@@ -0,0 +1,88 @@
+import { render } from "./api";
+import { buildOpenApi, openApiFormatFromFileName, printOpenApi } from "./openapi";
+import { ISchema } from "./schema";
+import { IAuthroization, IExportedRouteMethod, IExportedRouter, IStandardRouteMethod } from "./types";
+
+const OPTIONS = { title: "Items", version: "1.0.0" };
+
+function method(overrides: Partial<IStandardRouteMethod>): IStandardRouteMethod {
+    return {
+        authorization: null,
+        body: null,
+        cookies: [],
+        customMethod: false,
+        documentation: null,
+        headers: [],
+        method: "GET",
+        name: "getItem",
+        params: [],
+        query: [],
+        responses: [{
+            body: { documentation: null, name: null, strings: "all" },
+            documentation: null,
+            headers: [],
+            status: 200,
+        }],
+        ...overrides,
+    };
+}
+
+function router(routeBase: string, route: string, methods: IExportedRouteMethod[]): IExportedRouter[] {
+    return [{
+        documentation: null,
+        name: "IRoutes",
+        routeBase,
+        routes: [{ documentation: null, methods, route }],
+    }];
+}
+
+// the operations of a path by their method
+function operations(doc: ISchema, routePath: string): { [method: string]: ISchema } {
+    return (doc.paths as { [routePath: string]: { [method: string]: ISchema } })[routePath];
+}
+
+test("placeholders are written in braces", () => {
+    const doc = buildOpenApi(router("/lists/:listId", "/items/:id", [method({})]), OPTIONS);
+    expect(Object.keys(doc.paths as ISchema)).toEqual(["/lists/{listId}/items/{id}"]);
+});
+
+test("authorization uses a security scheme", () => {
+    const authorization: IAuthroization = {
+        documentation: "A session token",
+        type: { documentation: null, name: null, strings: "all" },
+    };
+    const doc = buildOpenApi(router("/", "/items", [method({ authorization }), method({ method: "POST" })]), OPTIONS);
+    expect(doc.components).toMatchObject({
+        securitySchemes: { authorization: { in: "header", name: "Authorization", type: "apiKey" } },
+    });
+    expect(operations(doc, "/items").get).toMatchObject({
+        "security": [{ authorization: [] }],
+        "x-authorization": "A session token",
+    });
+    expect(operations(doc, "/items").post.security).toBeUndefined();
+    expect(buildOpenApi(router("/", "/items", [method({})]), OPTIONS).components).toEqual({ schemas: {} });
+});
+
+test("methods without responses get a default response", () => {
+    const doc = buildOpenApi(router("/", "/items", [method({ responses: [] })]), OPTIONS);
+    expect(operations(doc, "/items").get.responses).toEqual({ default: { description: "" } });
+});
+
+test("methods without a field in the path item are written as extensions", () => {
+    const propfind: IExportedRouteMethod = { ...method({ name: "findItem" }), customMethod: true, method: "PROPFIND" };
+    const connect = method({ method: "CONNECT", name: "connect" });
+    const doc = buildOpenApi(router("/", "/items", [propfind, connect]), OPTIONS);
+    expect(Object.keys(operations(doc, "/items"))).toEqual(["x-propfind", "x-connect"]);
+});
+
+test("the file name picks YAML or JSON", () => {
+    expect(openApiFormatFromFileName("openapi.yaml")).toBe("yaml");
+    expect(openApiFormatFromFileName("openapi.YML")).toBe("yaml");
+    expect(openApiFormatFromFileName("openapi.json")).toBe("json");
+    const routers = router("/", "/items", [method({})]);
+    expect(printOpenApi(routers, "yaml", OPTIONS)).toMatch(/^openapi: "?3\.0\.3"?\n/);
+    expect(JSON.parse(render(routers, "openapi", { fileName: "api.json" })["api.json"]))
+        .toEqual(buildOpenApi(routers, { title: "Routes", version: "0.0.0" }));
+    expect(JSON.parse(render(routers, "openapi", { ...OPTIONS, fileName: "api.json" })["api.json"]).info)
+        .toEqual({ title: "Items", version: "1.0.0" });
+});
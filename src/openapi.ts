@@ -0,0 +1,241 @@
+import * as path from "path";
+import { uniqueIdentifier } from "./identifiers";
+import { printYaml } from "./pretty/yaml";
+import {
+    collectNamedTypes,
+    ISchema,
+    ISchemaOptions,
+    schemaName,
+    typeToInlineSchema,
+    typeToSchema,
+    withAnnotations,
+} from "./schema";
+import { stripUndefined } from "./typeOperations";
+import { IDocumented, IExportedRouteMethod, IExportedRouter, IParam, IQueryParam, StandardMethod } from "./types";
+
+export type OpenApiFormat = "json" | "yaml";
+
+export interface IOpenApiOptions {
+    title: string;
+    version: string;
+}
+
+// used if the title and version of the API are not configured
+export const DEFAULT_OPENAPI_OPTIONS: IOpenApiOptions = {
+    title: "Routes",
+    version: "0.0.0",
+};
+
+const OPENAPI_VERSION = "3.0.3";
+
+const SCHEMA_OPTIONS: ISchemaOptions = {
+    dialect: "openapi",
+    refPrefix: "#/components/schemas/",
+    refSuffix: "",
+};
+
+const AUTHORIZATION_SCHEME = "authorization";
+
+// methods with a field in the path item object, all others are written as extensions (x-propfind)
+const OPENAPI_METHODS: StandardMethod[] = ["GET", "PUT", "POST", "DELETE", "OPTIONS", "HEAD", "PATCH", "TRACE"];
+
+export function openApiFormatFromFileName(fileName: string): OpenApiFormat {
+    return /\.ya?ml$/i.test(fileName) ? "yaml" : "json";
+}
+
+export function printOpenApi(
+    routers: IExportedRouter[],
+    format: OpenApiFormat,
+    options: IOpenApiOptions = DEFAULT_OPENAPI_OPTIONS,
+): string {
+    const doc = buildOpenApi(routers, options);
+    if (format === "yaml") {
+        return printYaml(doc);
+    }
+    return JSON.stringify(doc, undefined, 2) + "\n";
+}
+
+/**
+ * Build an OpenAPI 3.0 document. Every router becomes a tag, every route a path and every method an
+ * operation on that path. Named types are moved to the schema components.
+ */
+export function buildOpenApi(routers: IExportedRouter[], options: IOpenApiOptions): ISchema {
+    const paths: { [path: string]: ISchema } = {};
+    const operationIds: string[] = [];
+    let usesAuthorization = false;
+    for (const router of routers) {
+        for (const route of router.routes) {
+            const routePath = toOpenApiPath(path.posix.join(router.routeBase, route.route));
+            if (paths[routePath] === undefined) {
+                paths[routePath] = route.documentation !== null
+                    ? { description: route.documentation }
+                    : {};
+            }
+            for (const method of route.methods) {
+                const operationId = uniqueIdentifier(method.name, operationIds);
+                operationIds.push(operationId);
+                paths[routePath][operationKey(method)] = buildOperation(router, method, operationId);
+                usesAuthorization = usesAuthorization || method.authorization !== null;
+            }
+        }
+    }
+    const namedTypes = collectNamedTypes(routers);
+    const schemas: { [name: string]: ISchema } = {};
+    for (const name of Object.keys(namedTypes)) {
+        schemas[schemaName(name)] = typeToInlineSchema(namedTypes[name], SCHEMA_OPTIONS);
+    }
+    const components: ISchema = {
+        schemas,
+    };
+    if (usesAuthorization) {
+        components.securitySchemes = {
+            [AUTHORIZATION_SCHEME]: {
+                in: "header",
+                name: "Authorization",
+                type: "apiKey",
+            },
+        };
+    }
+    // assign the top level keys one by one to keep the conventional order in the output
+    const doc: ISchema = {
+        openapi: OPENAPI_VERSION,
+    };
+    doc.info = {
+        title: options.title,
+        version: options.version,
+    };
+    doc.tags = routers.map((router) => router.documentation !== null
+        ? { description: router.documentation, name: router.name }
+        : { name: router.name });
+    doc.paths = paths;
+    doc.components = components;
+    return doc;
+}
+
+function buildOperation(router: IExportedRouter, method: IExportedRouteMethod, operationId: string): ISchema {
+    const operation: ISchema = {
+        operationId,
+        summary: method.name,
+        tags: [router.name],
+    };
+    if (method.documentation !== null) {
+        operation.description = method.documentation;
+    }
+    if (method.deprecated !== undefined) {
+        operation.deprecated = true;
+    }
+    if (method.since !== undefined) {
+        operation["x-since"] = method.since;
+    }
+    const link = (method.see || []).find((see) => /^https?:\/\//.test(see));
+    if (link !== undefined) {
+        operation.externalDocs = { url: link };
+    }
+    const parameters: ISchema[] = [
+        ...method.params.map((param) => buildParameter("path", { ...param, required: true })),
+        ...method.query.map((param) => buildParameter("query", param)),
+        ...method.headers.map((param) => buildParameter("header", param)),
+        ...method.cookies.map((param) => buildParameter("cookie", param)),
+    ];
+    if (parameters.length > 0) {
+        operation.parameters = parameters;
+    }
+    if (method.body !== null) {
+        operation.requestBody = withDescription({
+            content: {
+                "application/json": {
+                    schema: typeToSchema(method.body.type, SCHEMA_OPTIONS),
+                },
+            },
+            required: true,
+        }, method.body.documentation);
+    }
+    const responses: { [status: string]: ISchema } = {};
+    for (const response of method.responses) {
+        const responseObject: ISchema = response.body === null
+            ? { description: response.documentation || "" }
+            : {
+                content: {
+                    "application/json": {
+                        schema: typeToSchema(response.body, SCHEMA_OPTIONS),
+                    },
+                },
+                description: response.documentation || "",
+            };
+        if (response.headers.length > 0) {
+            const headers: { [name: string]: ISchema } = {};
+            for (const header of response.headers) {
+                headers[header.name] = withParameterTags(withDescription({
+                    required: header.required,
+                    schema: buildParameterSchema(header),
+                }, header.documentation), header);
+            }
+            responseObject.headers = headers;
+        }
+        responses[response.status.toString()] = responseObject;
+    }
+    operation.responses = method.responses.length > 0
+        ? responses
+        : { default: { description: "" } };
+    if (method.authorization !== null) {
+        operation.security = [{ [AUTHORIZATION_SCHEME]: [] }];
+        if (method.authorization.documentation !== null) {
+            operation["x-authorization"] = method.authorization.documentation;
+        }
+    }
+    return operation;
+}
+
+function buildParameter(location: "path" | "query" | "header" | "cookie", param: IQueryParam): ISchema {
+    return withParameterTags(withDescription({
+        in: location,
+        name: param.name,
+        required: param.required,
+        schema: buildParameterSchema(param),
+    }, param.documentation), param);
+}
+
+/**
+ * The schema of a parameter carries its default, the parameter itself whether it is deprecated and its example.
+ */
+function buildParameterSchema(param: IParam): ISchema {
+    const schema = typeToSchema(stripUndefined(param.type)[0], SCHEMA_OPTIONS);
+    return param.default !== undefined
+        ? withAnnotations(schema, { default: param.default, documentation: null }, SCHEMA_OPTIONS)
+        : schema;
+}
+
+function withParameterTags(parameter: ISchema, doc: IDocumented): ISchema {
+    const result = { ...parameter };
+    if (doc.deprecated !== undefined) {
+        result.deprecated = true;
+    }
+    if (doc.example !== undefined) {
+        result.example = doc.example;
+    }
+    return result;
+}
+
+function withDescription(schema: ISchema, documentation: string | null): ISchema {
+    if (documentation === null) {
+        return schema;
+    }
+    return {
+        ...schema,
+        description: documentation,
+    };
+}
+
+function operationKey(method: IExportedRouteMethod): string {
+    if (!method.customMethod && OPENAPI_METHODS.includes(method.method)) {
+        return method.method.toLowerCase();
+    }
+    return "x-" + method.method.toLowerCase();
+}
+
+/**
+ * Express style placeholders (/todo/:id) become OpenAPI placeholders (/todo/{id}).
+ */
+function toOpenApiPath(routePath: string): string {
+    return routePath.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
@@ -0,0 +1,25 @@
+import { printYaml } from "./yaml";
+
+test("printYaml scalars", () => {
+    expect(printYaml("plain")).toBe("plain\n");
+    expect(printYaml("needs quoting")).toBe("\"needs quoting\"\n");
+    expect(printYaml("true")).toBe("\"true\"\n");
+    expect(printYaml(42)).toBe("42\n");
+    expect(printYaml(null)).toBe("null\n");
+});
+
+test("printYaml nesting", () => {
+    const result = [
+        "a:",
+        "  \"201\": []",
+        "  b: 1",
+        "list:",
+        "  - x",
+        "  - key: value",
+        "    other: {}",
+    ].join("\n") + "\n";
+    expect(printYaml({
+        a: { "201": [], "b": 1 },
+        list: ["x", { key: "value", other: {} }],
+    })).toBe(result);
+});
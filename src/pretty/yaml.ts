@@ -0,0 +1,79 @@
+const INDENT_SIZE = 2;
+
+/**
+ * Print a JSON value as YAML. Strings which could be mistaken for something else are quoted
+ * as JSON strings (which are valid YAML).
+ */
+export function printYaml(value: unknown): string {
+    return printYamlValue(value, 0).join("\n") + "\n";
+}
+
+function printYamlValue(value: unknown, indent: number): string[] {
+    const prefix = " ".repeat(indent);
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return [prefix + "[]"];
+        }
+        const lines: string[] = [];
+        for (const item of value) {
+            if (isNested(item)) {
+                const itemLines = printYamlValue(item, indent + INDENT_SIZE);
+                lines.push(prefix + "- " + itemLines[0].slice(indent + INDENT_SIZE), ...itemLines.slice(1));
+            } else {
+                lines.push(prefix + "- " + printYamlScalar(item));
+            }
+        }
+        return lines;
+    }
+    if (isObject(value)) {
+        const keys = Object.keys(value);
+        if (keys.length === 0) {
+            return [prefix + "{}"];
+        }
+        const lines: string[] = [];
+        for (const key of keys) {
+            const member = value[key];
+            if (isNested(member)) {
+                lines.push(prefix + printYamlString(key) + ":", ...printYamlValue(member, indent + INDENT_SIZE));
+            } else {
+                lines.push(prefix + printYamlString(key) + ": " + printYamlScalar(member));
+            }
+        }
+        return lines;
+    }
+    return [prefix + printYamlScalar(value)];
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNested(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return isObject(value) && Object.keys(value).length > 0;
+}
+
+function printYamlScalar(value: unknown): string {
+    if (typeof value === "string") {
+        return printYamlString(value);
+    }
+    if (Array.isArray(value)) {
+        return "[]";
+    }
+    if (isObject(value)) {
+        return "{}";
+    }
+    if (value === undefined) {
+        return "null";
+    }
+    return JSON.stringify(value);
+}
+
+function printYamlString(s: string): string {
+    if (/^[A-Za-z_$][\w.$\-\/]*$/.test(s) && !/^(true|false|null|yes|no|on|off|y|n)$/i.test(s)) {
+        return s;
+    }
+    return JSON.stringify(s);
+}
@@ -0,0 +1,42 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseRoutersDump } from "./dump";
+import { printMarkdown, printMarkdownFull } from "./printer";
+
+const root = path.join(__dirname, "..");
+const routers = parseRoutersDump(fs.readFileSync(path.join(root, "example.json"), "utf8"), root);
+
+test("types are inlined by default", () => {
+    const markdown = printMarkdownFull(routers);
+    expect(markdown).not.toContain("## Types");
+    expect(markdown.split("status:  \"open\" | \"started\" | \"onHold\"").length).toBeGreaterThan(2);
+});
+
+test("shared types are printed once and linked", () => {
+    const markdown = printMarkdownFull(routers, { inlineThreshold: 0, sharedTypes: true });
+    expect(markdown.match(/"open" \| "started" \| "onHold"/g)).toHaveLength(1);
+    expect(markdown).toContain("- Body:\n\n  [`ITodoItem`](#itodoitem)\n");
+    expect(markdown).toContain([
+        "### `ITodoItem`",
+        "",
+        "A single task we aim to do (eventually).",
+        "",
+        "```ts",
+        "{",
+        "  item:    string;",
+        "  created: Date;",
+        "  status:  TaskStatus;",
+        "  due:     Date | null;",
+        "}",
+        "```",
+        "",
+        "Types: [`TaskStatus`](#taskstatus)",
+    ].join("\n"));
+});
+
+test("small types are still inlined", () => {
+    const markdown = printMarkdown(routers[0], true, { inlineThreshold: 1, sharedTypes: true });
+    expect(markdown).toContain("# Types");
+    expect(markdown).not.toContain("## `TodoList`");
+    expect(markdown).toContain("```ts\n    ITodoItem[]\n    ```\n\n    Types: [`ITodoItem`](#itodoitem)");
+});
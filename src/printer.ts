@@ -1,19 +1,108 @@
 import * as path from "path";
+import { hasTags, printTags } from "./docTags";
 import TextBlock from "./pretty/TextBlock";
-import { IDocumented, IExportedRoute, IExportedRouteMethod, IExportedRouter, Type } from "./types";
+import { sampleValue } from "./samples";
+import { collectNamedTypes, INamedTypes, isDateType } from "./schema";
+import { IDocumented, IExportedRoute, IExportedRouteMethod, IExportedRouter, IQueryParam, Type } from "./types";
 
 const INDENT_SIZE = 2;
 
-export function printMarkdownFull(routers: IExportedRouter[]): string {
+export interface IMarkdownOptions {
+    // print named types once in a types section and only reference them by name everywhere else
+    sharedTypes: boolean;
+    // named types with a definition of at most this many lines are still inlined
+    inlineThreshold: number;
+}
+
+const DEFAULT_OPTIONS: IMarkdownOptions = {
+    inlineThreshold: 0,
+    sharedTypes: false,
+};
+
+export function printMarkdownFull(routers: IExportedRouter[], options: IMarkdownOptions = DEFAULT_OPTIONS): string {
+    const shared = sharedTypes(routers, options);
     return new TextBlock([
         "# Routes",
         "",
         "[TOC]",
         "",
-    ]).vcat(...routers.map((router) => printMarkdown(router, false))).toString().trim() + "\n";
+    ]).vcat(
+        ...routers.map((router) => printRouter(router, false, Object.keys(shared))),
+        printMarkdownTypes(shared, "##"),
+    ).toString().trim() + "\n";
 }
 
-export function printMarkdown(router: IExportedRouter, printTOC: boolean): string {
+export function printMarkdown(
+    router: IExportedRouter,
+    printTOC: boolean,
+    options: IMarkdownOptions = DEFAULT_OPTIONS,
+): string {
+    const shared = sharedTypes([router], options);
+    const types = printMarkdownTypes(shared, printTOC ? "#" : "##");
+    return printRouter(router, printTOC, Object.keys(shared)) + (types !== "" ? "\n" + types : "");
+}
+
+/**
+ * Get the named types to print in a types section, i.e. all types too large to be inlined.
+ */
+function sharedTypes(routers: IExportedRouter[], options: IMarkdownOptions): INamedTypes {
+    const result: INamedTypes = {};
+    if (!options.sharedTypes) {
+        return result;
+    }
+    const namedTypes = collectNamedTypes(routers);
+    const names = Object.keys(namedTypes);
+    for (const name of names) {
+        // measured with the other named types referenced, as they are likely shared as well
+        const others = names.filter((other) => other !== name);
+        if (printMarkdownType(namedTypes[name], others).height() > options.inlineThreshold) {
+            result[name] = namedTypes[name];
+        }
+    }
+    return result;
+}
+
+/**
+ * Print a section with the definition of every shared type, headed by the name of the type (which is
+ * what the references link to).
+ */
+function printMarkdownTypes(shared: INamedTypes, level: "#" | "##"): string {
+    const names = Object.keys(shared);
+    if (names.length === 0) {
+        return "";
+    }
+    return TextBlock.vcat(
+        `${level} Types`,
+        "",
+        TextBlock.vJoin(names.map((name) => {
+            const type = shared[name];
+            // the documentation is printed above the definition instead of as a comment in it
+            const definition: Type = "documentation" in type
+                ? {
+                    ...type,
+                    default: undefined,
+                    deprecated: undefined,
+                    documentation: null,
+                    example: undefined,
+                    see: undefined,
+                    since: undefined,
+                }
+                : type;
+            return TextBlock.vcat(
+                `${level}# \`${name}\``,
+                "",
+                ..."documentation" in type && type.documentation !== null ? [type.documentation, ""] : [],
+                ..."documentation" in type && hasTags(type) ? [...printMarkdownTags(type), ""] : [],
+                "```ts",
+                printMarkdownType(definition, names.filter((other) => other !== name)),
+                "```",
+                ...printMarkdownReferences(definition, names.filter((other) => other !== name)),
+            );
+        }), ""),
+    ).toString().split("\n").map((s) => s.trimRight()).join("\n").trim() + "\n";
+}
+
+function printRouter(router: IExportedRouter, printTOC: boolean, shared: string[]): string {
     const routerDesc = router.documentation !== null
         ? TextBlock.hcat("- ", router.documentation)
         : TextBlock.EMPTY;
@@ -22,8 +111,9 @@ export function printMarkdown(router: IExportedRouter, printTOC: boolean): strin
         "",
         TextBlock.hcat("- Prefix for all routes: `", router.routeBase, "`"),
         routerDesc,
+        ...printMarkdownTags(router),
         printTOC ? "\n[TOC]\n" : "",
-        TextBlock.vJoin(router.routes.map(printMarkdownEndpoint(router.routeBase, printTOC ? 2 : 3)), "\n\n"),
+        TextBlock.vJoin(router.routes.map(printMarkdownEndpoint(router.routeBase, printTOC ? 2 : 3, shared)), "\n\n"),
     ).toString()
     .split("\n").map((s) => s.trimRight()).join("\n")
     .replace(
@@ -31,14 +121,19 @@ export function printMarkdown(router: IExportedRouter, printTOC: boolean): strin
     ).trim() + "\n";
 }
 
-function printMarkdownEndpoint(routerBase: string, level: 2 | 3): (route: IExportedRoute) => TextBlock {
+function printMarkdownEndpoint(
+    routerBase: string,
+    level: 2 | 3,
+    shared: string[],
+): (route: IExportedRoute) => TextBlock {
     return (route: IExportedRoute) => {
-        const routeDesc = route.documentation !== null
-            ? TextBlock.hcat("- ", route.documentation)
-            : TextBlock.EMPTY;
+        const routeDesc = TextBlock.vcat(
+            route.documentation !== null ? TextBlock.hcat("- ", route.documentation) : TextBlock.EMPTY,
+            ...printMarkdownTags(route),
+        );
         const routePath = TextBlock.hcat("`", path.join(routerBase, route.route), "`");
         return TextBlock.vJoin(route.methods.map(
-            (method) => printMarkdownMethod(routePath, routeDesc, method, level),
+            (method) => printMarkdownMethod(routePath, routeDesc, method, level, shared),
         ), "\n\n");
     };
 }
@@ -48,6 +143,7 @@ function printMarkdownMethod(
     routeDesc: TextBlock,
     method: IExportedRouteMethod,
     level: 2 | 3,
+    shared: string[],
 ): TextBlock {
     const docs: TextBlock[] = [
         TextBlock.hcat("- Method: `", method.method, "`"),
@@ -56,15 +152,12 @@ function printMarkdownMethod(
     if (method.documentation !== null) {
         docs.push(TextBlock.hcat("- ", method.documentation));
     }
+    docs.push(...printMarkdownTags(method));
     if (method.authorization !== null) {
         docs.push(TextBlock.vcat(
             TextBlock.hcat("- Authorization: ", method.authorization.documentation || ""),
             "",
-            TextBlock.vcat(
-                "```ts",
-                printMarkdownType(method.authorization.type),
-                "```",
-            ).indent(INDENT_SIZE),
+            printMarkdownTypeBlock(method.authorization.type, shared).indent(INDENT_SIZE),
             "",
         ));
     }
@@ -73,9 +166,9 @@ function printMarkdownMethod(
             TextBlock.hcat("- Body: ", method.body.documentation || ""),
             "",
             TextBlock.vcat(
-                "```ts",
-                printMarkdownType(method.body.type),
-                "```",
+                printMarkdownTypeBlock(method.body.type, shared),
+                "",
+                printMarkdownExample(method.body, method.body.type),
             ).indent(INDENT_SIZE),
             "",
         ));
@@ -85,38 +178,21 @@ function printMarkdownMethod(
             "- Parameters:",
             "",
             ...method.params.map((param) => TextBlock.vcat(
-                TextBlock.hcat("- `", param.name, "`: ", param.documentation || ""),
+                TextBlock.hcat("- `", param.name, "`", printMarkdownFlags(param, []), ": ", param.documentation || ""),
                 "",
-                TextBlock.vcat(
-                    "```ts",
-                    printMarkdownType(param.type),
-                    "```",
-                ).indent(INDENT_SIZE),
+                printMarkdownTypeBlock(param.type, shared).indent(INDENT_SIZE),
                 "",
             ).indent(INDENT_SIZE)),
         ));
     }
     if (method.query.length > 0) {
-        docs.push(TextBlock.vcat(
-            "- Query-Parameters:",
-            "",
-            ...method.query.map((param) => TextBlock.vcat(
-                TextBlock.hcat(
-                    "- `",
-                    param.name,
-                    "`",
-                    param.required ? "" : " (optional)",
-                    ": ",
-                    param.documentation || ""),
-                "",
-                TextBlock.vcat(
-                    "```ts",
-                    printMarkdownType(param.type),
-                    "```",
-                ).indent(INDENT_SIZE),
-                "",
-            ).indent(INDENT_SIZE)),
-        ));
+        docs.push(printMarkdownQueryParams("- Query-Parameters:", method.query, shared));
+    }
+    if (method.headers.length > 0) {
+        docs.push(printMarkdownQueryParams("- Headers:", method.headers, shared));
+    }
+    if (method.cookies.length > 0) {
+        docs.push(printMarkdownQueryParams("- Cookies:", method.cookies, shared));
     }
     if (method.responses.length > 0) {
         docs.push(TextBlock.vcat(
@@ -133,11 +209,14 @@ function printMarkdownMethod(
                     ? new TextBlock("Empty response").indent(INDENT_SIZE)
                     : TextBlock.vcat(
                         "",
-                        "```ts",
-                        printMarkdownType(response.body),
-                        "```",
+                        printMarkdownTypeBlock(response.body, shared),
+                        "",
+                        printMarkdownExample(response, response.body),
                     ).indent(INDENT_SIZE),
                 "",
+                ...(response.headers.length > 0
+                    ? [printMarkdownQueryParams("- Headers:", response.headers, shared).indent(INDENT_SIZE)]
+                    : []),
             ).indent(INDENT_SIZE)),
         ));
     }
@@ -145,7 +224,7 @@ function printMarkdownMethod(
         TextBlock.hcat(
             level === 2 ? "##" : "###",
             " ",
-            method.name,
+            method.deprecated !== undefined ? `~~${method.name}~~` : method.name,
         ),
         "",
         routeDesc,
@@ -153,7 +232,149 @@ function printMarkdownMethod(
     );
 }
 
-function printMarkdownType(type: Type): TextBlock {
+/**
+ * Print the deprecation, version and references of a router, route or method as list items.
+ */
+function printMarkdownTags(doc: IDocumented): TextBlock[] {
+    const lines: TextBlock[] = [];
+    if (doc.deprecated !== undefined) {
+        lines.push(TextBlock.hcat("- **Deprecated**", doc.deprecated === "" ? "" : ": ", doc.deprecated));
+    }
+    if (doc.since !== undefined) {
+        lines.push(TextBlock.hcat("- Since: `", doc.since, "`"));
+    }
+    for (const see of doc.see || []) {
+        lines.push(TextBlock.hcat("- See: ", see));
+    }
+    return lines;
+}
+
+/**
+ * Print the flags of a parameter, e.g. " (optional, deprecated, default: `10`)".
+ */
+function printMarkdownFlags(doc: IDocumented, flags: string[]): string {
+    const allFlags = [...flags];
+    if (doc.deprecated !== undefined) {
+        allFlags.push("**deprecated**");
+    }
+    if (doc.default !== undefined) {
+        allFlags.push(`default: \`${JSON.stringify(doc.default)}\``);
+    }
+    if (doc.since !== undefined) {
+        allFlags.push(`since \`${doc.since}\``);
+    }
+    return allFlags.length > 0 ? ` (${allFlags.join(", ")})` : "";
+}
+
+/**
+ * Print an example payload for a body or response, the @example of the body or response wins over the
+ * one generated from the type.
+ */
+function printMarkdownExample(doc: IDocumented, type: Type): TextBlock {
+    const example = doc.example !== undefined ? doc.example : sampleValue(type);
+    if (example === undefined) {
+        return TextBlock.EMPTY;
+    }
+    return TextBlock.vcat(
+        "Example:",
+        "",
+        "```json",
+        JSON.stringify(example, null, 2),
+        "```",
+    );
+}
+
+function printMarkdownQueryParams(title: string, params: IQueryParam[], shared: string[]): TextBlock {
+    return TextBlock.vcat(
+        title,
+        "",
+        ...params.map((param) => TextBlock.vcat(
+            TextBlock.hcat(
+                "- `",
+                param.name,
+                "`",
+                printMarkdownFlags(param, param.required ? [] : ["optional"]),
+                ": ",
+                param.documentation || ""),
+            "",
+            printMarkdownTypeBlock(param.type, shared).indent(INDENT_SIZE),
+            "",
+        ).indent(INDENT_SIZE)),
+    );
+}
+
+/**
+ * Print a type as code block. A shared type is only linked, shared types referenced by an inlined type are
+ * linked below the code block.
+ */
+function printMarkdownTypeBlock(type: Type, shared: string[]): TextBlock {
+    const name = sharedName(type, shared);
+    if (name !== null) {
+        return new TextBlock(printMarkdownLink(name));
+    }
+    return TextBlock.vcat(
+        "```ts",
+        printMarkdownType(type, shared),
+        "```",
+        ...printMarkdownReferences(type, shared),
+    );
+}
+
+function printMarkdownReferences(type: Type, shared: string[]): string[] {
+    const references: string[] = [];
+    collectReferences(type, shared, references);
+    return references.length > 0 ? ["", `Types: ${references.map(printMarkdownLink).join(", ")}`] : [];
+}
+
+function collectReferences(type: Type, shared: string[], acc: string[]): void {
+    const name = sharedName(type, shared);
+    if (name !== null) {
+        if (!acc.includes(name)) {
+            acc.push(name);
+        }
+        return;
+    }
+    if ("arrayMembers" in type) {
+        collectReferences(type.arrayMembers, shared, acc);
+    } else if ("tupleMembers" in type) {
+        type.tupleMembers.forEach((member) => collectReferences(member, shared, acc));
+    } else if ("objectMembers" in type) {
+        Object.keys(type.objectMembers).forEach((key) => collectReferences(type.objectMembers[key], shared, acc));
+    } else if ("dictionaryValue" in type) {
+        collectReferences(type.dictionaryValue, shared, acc);
+        Object.keys(type.dictionaryMembers).forEach((key) =>
+            collectReferences(type.dictionaryMembers[key], shared, acc),
+        );
+    } else if ("union" in type) {
+        type.union.forEach((member) => collectReferences(member, shared, acc));
+    } else if ("intersection" in type) {
+        type.intersection.forEach((member) => collectReferences(member, shared, acc));
+    }
+}
+
+/**
+ * Link to the heading of a shared type, using the anchor GitHub generates for it.
+ */
+function printMarkdownLink(name: string): string {
+    const anchor = name.toLowerCase().replace(/[^a-z0-9 _-]/g, "").replace(/ /g, "-");
+    return `[\`${name}\`](#${anchor})`;
+}
+
+function sharedName(type: Type, shared: string[]): string | null {
+    if ("reference" in type && shared.includes(type.reference)) {
+        return type.reference;
+    }
+    if ("name" in type && type.name !== null && !isDateType(type) && shared.includes(type.name)) {
+        return type.name;
+    }
+    return null;
+}
+
+function printMarkdownType(type: Type, shared: string[]): TextBlock {
+    const name = sharedName(type, shared);
+    if (name !== null) {
+        return new TextBlock(name);
+    }
     if ("numbers" in type) {
         if (type.numbers === "all") {
             return TextBlock.hcat("number", showDocType(type));
@@ -173,13 +394,14 @@ function printMarkdownType(type: Type): TextBlock {
         return TextBlock.hcat(type.strings.map((s) => JSON.stringify(s)).join(" | "), showDocType(type));
     }
     if ("arrayMembers" in type) {
-        if (isSimpleType(type.arrayMembers)) {
-            return TextBlock.hcat(printMarkdownType(type.arrayMembers), "[]", showDocType(type));
+        if (isSimpleType(type.arrayMembers) || sharedName(type.arrayMembers, shared) !== null) {
+            return TextBlock.hcat(printMarkdownType(type.arrayMembers, shared), "[]", showDocType(type));
         }
-        return new TextBlock("Array<" + printMarkdownType(type.arrayMembers) + ">").hcat(showDocType(type));
+        return new TextBlock("Array<" + printMarkdownType(type.arrayMembers, shared) + ">").hcat(showDocType(type));
     }
     if ("tupleMembers" in type) {
-        return new TextBlock("[" + type.tupleMembers.map(printMarkdownType).join(", ") + "]").hcat(showDocType(type));
+        const members = type.tupleMembers.map((member) => printMarkdownType(member, shared));
+        return new TextBlock("[" + members.join(", ") + "]").hcat(showDocType(type));
     }
     if ("objectMembers" in type) {
         const memberKeys = Object.keys(type.objectMembers);
@@ -190,39 +412,62 @@ function printMarkdownType(type: Type): TextBlock {
             // we have a type we only know by name
             return TextBlock.hcat(type.name, showDocType(type));
         }
-        const longestName = memberKeys.reduce((acc, key) => Math.max(acc, key.length), 0);
-        return TextBlock.vcat(
-            "{",
-            ...memberKeys.map((memberName) => {
-                const memberBlock = TextBlock.hcat(
-                    memberName,
-                    ": ",
-                    printMarkdownType(type.objectMembers[memberName]).indent(longestName - memberName.length),
-                );
-                let semicolon = ";";
-                while (semicolon.length < memberBlock.height()) {
-                    semicolon = "\n" + semicolon;
-                }
-                return memberBlock.hcat(semicolon).indent(INDENT_SIZE);
-            }),
-            TextBlock.hcat("}", showDocType(type)),
+        return printMarkdownMembers(
+            memberKeys.map((key): [string, Type] => [key, type.objectMembers[key]]),
+            type,
+            shared,
         );
     }
+    if ("dictionaryValue" in type) {
+        const keyType = isSimpleType(type.dictionaryKey) ? printMarkdownType(type.dictionaryKey, shared) : "string";
+        return printMarkdownMembers([
+            [`[key: ${keyType}]`, type.dictionaryValue],
+            ...Object.keys(type.dictionaryMembers).map((key): [string, Type] => [key, type.dictionaryMembers[key]]),
+        ], type, shared);
+    }
     if ("null" in type) {
         return new TextBlock("null");
     }
     if ("undefined" in type) {
         return new TextBlock("undefined");
     }
+    if ("reference" in type) {
+        return new TextBlock(type.reference);
+    }
     if ("intersection" in type) {
-        return TextBlock.hcat(type.intersection.map(printMarkdownType).join(" & "), showDocType(type));
+        const members = type.intersection.map((member) => printMarkdownType(member, shared));
+        return TextBlock.hcat(members.join(" & "), showDocType(type));
     }
     if ("union" in type) {
-        return TextBlock.hcat(type.union.map(printMarkdownType).join(" | "), showDocType(type));
+        if (type.union.length === 0) {
+            return TextBlock.hcat("never", showDocType(type));
+        }
+        const members = type.union.map((member) => printMarkdownType(member, shared));
+        return TextBlock.hcat(members.join(" | "), showDocType(type));
     }
     return TextBlock.EMPTY;
 }
 
+function printMarkdownMembers(members: Array<[string, Type]>, type: IDocumented, shared: string[]): TextBlock {
+    const longestName = members.reduce((acc, [key]) => Math.max(acc, key.length), 0);
+    return TextBlock.vcat(
+        "{",
+        ...members.map(([memberName, memberType]) => {
+            const memberBlock = TextBlock.hcat(
+                memberName,
+                ": ",
+                printMarkdownType(memberType, shared).indent(longestName - memberName.length),
+            );
+            let semicolon = ";";
+            while (semicolon.length < memberBlock.height()) {
+                semicolon = "\n" + semicolon;
+            }
+            return memberBlock.hcat(semicolon).indent(INDENT_SIZE);
+        }),
+        TextBlock.hcat("}", showDocType(type)),
+    );
+}
+
 function isSimpleType(type: Type): boolean {
     if ("numbers" in type) {
         return (type.numbers === "all");
@@ -242,12 +487,18 @@ function isSimpleType(type: Type): boolean {
     if ("objectMembers" in type) {
         return false;
     }
+    if ("dictionaryValue" in type) {
+        return false;
+    }
     if ("null" in type) {
         return true;
     }
     if ("undefined" in type) {
         return true;
     }
+    if ("reference" in type) {
+        return true;
+    }
     if ("union" in type) {
         return false;
     }
@@ -258,10 +509,11 @@ function isSimpleType(type: Type): boolean {
 }
 
 function showDocType(doc: IDocumented): TextBlock {
-    if (doc.documentation === null) {
+    const lines = [...(doc.documentation !== null ? [doc.documentation] : []), ...printTags(doc)];
+    if (lines.length === 0) {
         return TextBlock.EMPTY;
     }
-    const docBlock = new TextBlock(doc.documentation);
+    const docBlock = new TextBlock(lines.join("\n"));
     const endLines = [];
     while (endLines.length < docBlock.height()) {
         endLines.push(endLines.length + 1 < docBlock.height() ? "" : " */");
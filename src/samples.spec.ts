@@ -0,0 +1,46 @@
+import { sampleValue } from "./samples";
+import { Type } from "./types";
+
+test("sample values", () => {
+    const status: Type = {
+        documentation: null,
+        name: "Status",
+        union: [
+            { documentation: null, name: null, strings: ["open"] },
+            { documentation: null, name: null, strings: ["closed"] },
+        ],
+    };
+    const item: Type = {
+        documentation: null,
+        name: "IItem",
+        objectMembers: {
+            due: {
+                documentation: null,
+                name: null,
+                union: [{ null: true }, { documentation: null, name: "Date", objectMembers: {} }],
+            },
+            id: { documentation: null, name: null, numbers: "all" },
+            status,
+            tags: {
+                arrayMembers: { documentation: null, name: null, strings: "all" },
+                documentation: null,
+                name: null,
+            },
+        },
+    };
+    expect(sampleValue(item)).toEqual({
+        due: "2019-01-01T00:00:00.000Z",
+        id: 0,
+        status: "open",
+        tags: ["string"],
+    });
+});
+
+test("examples override generated values", () => {
+    expect(sampleValue({ documentation: null, example: 42, name: null, numbers: "all" })).toBe(42);
+    expect(sampleValue({
+        documentation: null,
+        name: null,
+        objectMembers: { name: { documentation: null, example: "Jane", name: null, strings: "all" } },
+    })).toEqual({ name: "Jane" });
+});
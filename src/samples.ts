@@ -0,0 +1,92 @@
+import { isDateType } from "./schema";
+import { stripUndefined } from "./typeOperations";
+import { Type } from "./types";
+
+const SAMPLE_DATE = "2019-01-01T00:00:00.000Z";
+
+/**
+ * Generate a plausible value of a type, e.g. for mock responses. Literal types use their first value,
+ * optional members are included and references to a named type within itself are cut off. An @example
+ * on a type (or on the member using it) is used instead of a generated value.
+ */
+export function sampleValue(type: Type, visiting: string[] = []): unknown {
+    if ("example" in type && type.example !== undefined) {
+        return type.example;
+    }
+    if ("name" in type && type.name !== null && !isDateType(type)) {
+        if (visiting.includes(type.name)) {
+            return "arrayMembers" in type ? [] : null;
+        }
+        visiting = [...visiting, type.name];
+    }
+    if ("numbers" in type) {
+        return type.numbers === "all" ? 0 : type.numbers[0];
+    }
+    if ("booleans" in type) {
+        return type.booleans === "all" ? true : type.booleans[0];
+    }
+    if ("strings" in type) {
+        return type.strings === "all" ? "string" : type.strings[0];
+    }
+    if ("enumValues" in type) {
+        const keys = Object.keys(type.enumValues);
+        return keys.length > 0 ? type.enumValues[keys[0]] : null;
+    }
+    if ("arrayMembers" in type) {
+        const sample = sampleValue(type.arrayMembers, visiting);
+        return sample !== undefined ? [sample] : [];
+    }
+    if ("tupleMembers" in type) {
+        return type.tupleMembers.map((member) => sampleValue(member, visiting));
+    }
+    if ("objectMembers" in type) {
+        if (isDateType(type)) {
+            return SAMPLE_DATE;
+        }
+        return sampleMembers(type.objectMembers, visiting);
+    }
+    if ("dictionaryValue" in type) {
+        const result = sampleMembers(type.dictionaryMembers, visiting);
+        const key = "numbers" in type.dictionaryKey ? "0" : "key";
+        if (!(key in result)) {
+            result[key] = sampleValue(type.dictionaryValue, visiting);
+        }
+        return result;
+    }
+    if ("null" in type) {
+        return null;
+    }
+    if ("undefined" in type || "reference" in type) {
+        return undefined;
+    }
+    if ("union" in type) {
+        // prefer an actual value over null, undefined or a reference
+        const members = type.union.filter((member) =>
+            !("null" in member) && !("undefined" in member) && !("reference" in member));
+        if (members.length > 0) {
+            return sampleValue(members[0], visiting);
+        }
+        const others = type.union.filter((member) => !("reference" in member));
+        return others.length > 0 ? sampleValue(others[0], visiting) : undefined;
+    }
+    if ("intersection" in type) {
+        const samples = type.intersection.map((member) => sampleValue(member, visiting));
+        if (samples.every((sample) => typeof sample === "object" && sample !== null && !Array.isArray(sample))) {
+            return Object.assign({}, ...samples);
+        }
+        return samples.length > 0 ? samples[0] : null;
+    }
+    return null;
+}
+
+function sampleMembers(members: { [name: string]: Type }, visiting: string[]): { [name: string]: unknown } {
+    const result: { [name: string]: unknown } = {};
+    for (const key of Object.keys(members)) {
+        const [memberType] = stripUndefined(members[key]);
+        const sample = sampleValue(memberType, visiting);
+        if (sample !== undefined) {
+            result[key] = sample;
+        }
+    }
+    return result;
+}
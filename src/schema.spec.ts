@@ -0,0 +1,142 @@
+import { collectNamedTypes, findNameClashes, ISchemaOptions, typeToInlineSchema, typeToSchema } from "./schema";
+import { IExportedRouteMethod, IExportedRouter, Type } from "./types";
+
+const draft07: ISchemaOptions = {
+    dialect: "draft-07",
+    refPrefix: "",
+    refSuffix: ".json",
+};
+
+const openApi: ISchemaOptions = {
+    dialect: "openapi",
+    refPrefix: "#/components/schemas/",
+    refSuffix: "",
+};
+
+const item: Type = {
+    documentation: null,
+    name: "IItem",
+    objectMembers: {
+        due: {
+            documentation: null,
+            name: null,
+            union: [{ documentation: null, name: null, numbers: "all" }, { null: true }],
+        },
+        title: {
+            documentation: null,
+            name: null,
+            union: [{ documentation: null, name: null, strings: "all" }, { undefined: true }],
+        },
+    },
+};
+
+test("named types are referenced", () => {
+    expect(typeToSchema(item, draft07)).toEqual({ $ref: "IItem.json" });
+    expect(typeToSchema(item, openApi)).toEqual({ $ref: "#/components/schemas/IItem" });
+});
+
+test("optional members are not required", () => {
+    expect(typeToInlineSchema(item, draft07)).toEqual({
+        properties: {
+            due: { type: ["number", "null"] },
+            title: { type: "string" },
+        },
+        required: ["due"],
+        type: "object",
+    });
+    expect(typeToInlineSchema(item, openApi)).toEqual({
+        properties: {
+            due: { nullable: true, type: "number" },
+            title: { type: "string" },
+        },
+        required: ["due"],
+        type: "object",
+    });
+});
+
+test("literal unions become enums", () => {
+    const status: Type = {
+        documentation: "The status",
+        name: null,
+        union: [
+            { documentation: null, name: null, strings: ["open"] },
+            { documentation: null, name: null, strings: ["done"] },
+        ],
+    };
+    expect(typeToSchema(status, draft07)).toEqual({
+        description: "The status",
+        enum: ["open", "done"],
+        type: "string",
+    });
+});
+
+test("unions without other members than null and undefined match nothing or only null", () => {
+    const never: Type = { documentation: null, name: null, union: [] };
+    expect(typeToSchema(never, draft07)).toEqual({ not: {} });
+    expect(typeToSchema(never, openApi)).toEqual({ not: {} });
+    const nothing: Type = { documentation: null, name: null, union: [{ null: true }, { undefined: true }] };
+    expect(typeToSchema(nothing, draft07)).toEqual({ type: "null" });
+    expect(typeToSchema(nothing, openApi)).toEqual({ enum: [null], nullable: true });
+});
+
+test("dictionaries use additionalProperties", () => {
+    const dictionary: Type = {
+        dictionaryKey: { documentation: null, name: null, strings: "all" },
+        dictionaryMembers: {},
+        dictionaryValue: item,
+        documentation: null,
+        name: null,
+    };
+    expect(typeToInlineSchema(dictionary, openApi)).toEqual({
+        additionalProperties: { $ref: "#/components/schemas/IItem" },
+        type: "object",
+    });
+});
+
+test("tags become annotations", () => {
+    const tagged: Type = { deprecated: "", documentation: null, name: null, union: [item] };
+    expect(typeToInlineSchema(tagged, openApi)).toEqual({
+        allOf: [{ $ref: "#/components/schemas/IItem" }],
+        deprecated: true,
+    });
+    const count: Type = { default: 10, documentation: "Count", example: 3, name: null, numbers: "all" };
+    expect(typeToInlineSchema(count, draft07)).toEqual({
+        default: 10,
+        description: "Count",
+        examples: [3],
+        type: "number",
+    });
+});
+
+test("different types with the same name are reported", () => {
+    const method = (body: Type, responseBody: Type): IExportedRouteMethod => ({
+        authorization: null,
+        body: { documentation: null, type: body },
+        cookies: [],
+        customMethod: false,
+        documentation: null,
+        headers: [],
+        method: "POST",
+        name: "createItem",
+        params: [],
+        query: [],
+        responses: [{ body: responseBody, documentation: null, headers: [], status: 200 }],
+    });
+    const routers = (responseBody: Type): IExportedRouter[] => [{
+        documentation: null,
+        name: "IRoutes",
+        routeBase: "/",
+        routes: [{ documentation: null, methods: [method(item, responseBody)], route: "/items" }],
+    }];
+    const other: Type = { ...item, objectMembers: {}, source: { fileName: "/project/src/other.ts", line: 3 } };
+    expect(findNameClashes(routers(item))).toEqual([]);
+    expect(collectNamedTypes(routers(other))).toEqual({ IItem: item });
+    expect(findNameClashes(routers(other))).toEqual([{
+        column: 0,
+        fileName: "/project/src/other.ts",
+        line: 3,
+        message: "Another type is already named IItem, rename one of them",
+        path: ["IRoutes", "/items", "POST"],
+        severity: "error",
+    }]);
+});
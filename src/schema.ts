@@ -0,0 +1,429 @@
+import { IDiagnostic } from "./Diagnostics";
+import { stripUndefined } from "./typeOperations";
+import { IDocumented, IExportedRouter, INamedType, Type } from "./types";
+
+export interface ISchema {
+    [keyword: string]: unknown;
+}
+
+export interface INamedTypes {
+    [name: string]: Type;
+}
+
+export interface ISchemaOptions {
+    // OpenAPI 3.0 uses its own dialect of JSON Schema (e.g., "nullable" instead of a null type)
+    dialect: "openapi" | "draft-07";
+    // prefix and suffix added to the (sanitized) name of a named type to reference it
+    refPrefix: string;
+    refSuffix: string;
+}
+
+/**
+ * Collect all named types used by the given routers (including named types nested in other types).
+ * If two types share a name, the first one encountered wins (see findNameClashes).
+ */
+export function collectNamedTypes(routers: IExportedRouter[]): INamedTypes {
+    const result: INamedTypes = {};
+    forEachMethodType(routers, (type) => collectNamedTypesFrom(type, result, () => undefined));
+    return result;
+}
+
+/**
+ * Report named types sharing their name with a different type. Outputs only contain the first type of
+ * a name, so references to the others would point at the wrong type.
+ */
+export function findNameClashes(routers: IExportedRouter[]): IDiagnostic[] {
+    const namedTypes: INamedTypes = {};
+    const result: IDiagnostic[] = [];
+    forEachMethodType(routers, (type, itemPath) => collectNamedTypesFrom(type, namedTypes, (name, other) => {
+        const firstType = namedTypes[name];
+        const first = "source" in firstType ? firstType.source : undefined;
+        const location = first !== undefined ? ` (${first.fileName}:${first.line})` : "";
+        result.push({
+            column: 0,
+            fileName: other.source !== undefined ? other.source.fileName : null,
+            line: other.source !== undefined ? other.source.line : 0,
+            message: `Another type is already named ${name}${location}, rename one of them`,
+            path: itemPath,
+            severity: "error",
+        });
+    }));
+    return result;
+}
+
+function forEachMethodType(routers: IExportedRouter[], f: (type: Type, itemPath: string[]) => void): void {
+    for (const router of routers) {
+        for (const route of router.routes) {
+            for (const method of route.methods) {
+                const itemPath = [router.name, route.route, method.method];
+                if (method.authorization !== null) {
+                    f(method.authorization.type, itemPath);
+                }
+                if (method.body !== null) {
+                    f(method.body.type, itemPath);
+                }
+                for (const param of method.params) {
+                    f(param.type, itemPath);
+                }
+                for (const param of [...method.query, ...method.headers, ...method.cookies]) {
+                    f(param.type, itemPath);
+                }
+                for (const response of method.responses) {
+                    if (response.body !== null) {
+                        f(response.body, itemPath);
+                    }
+                    for (const header of response.headers) {
+                        f(header.type, itemPath);
+                    }
+                }
+            }
+        }
+    }
+}
+
+function collectNamedTypesFrom(
+    type: Type,
+    acc: INamedTypes,
+    onClash: (name: string, other: INamedType) => void,
+): void {
+    const collect = (member: Type) => collectNamedTypesFrom(member, acc, onClash);
+    if ("name" in type && type.name !== null && !isDateType(type)) {
+        if (acc[type.name] !== undefined) {
+            if (!isSameNamedType(acc[type.name], type)) {
+                onClash(type.name, type);
+            }
+            return;
+        }
+        acc[type.name] = type;
+    }
+    if ("arrayMembers" in type) {
+        collect(type.arrayMembers);
+    } else if ("tupleMembers" in type) {
+        type.tupleMembers.forEach(collect);
+    } else if ("objectMembers" in type) {
+        Object.keys(type.objectMembers).forEach((key) => collect(type.objectMembers[key]));
+    } else if ("dictionaryValue" in type) {
+        Object.keys(type.dictionaryMembers).forEach((key) => collect(type.dictionaryMembers[key]));
+        collect(type.dictionaryValue);
+    } else if ("union" in type) {
+        type.union.forEach(collect);
+    } else if ("intersection" in type) {
+        type.intersection.forEach(collect);
+    }
+}
+
+/**
+ * Types with the same name are the same if they are declared at the same place or, if we do not know
+ * where they are declared, have the same structure.
+ */
+function isSameNamedType(a: Type, b: Type): boolean {
+    if ("source" in a && "source" in b && a.source !== undefined && b.source !== undefined) {
+        return a.source.fileName === b.source.fileName && a.source.line === b.source.line;
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function getTypeName(type: Type): string | null {
+    if ("name" in type) {
+        return type.name;
+    }
+    return null;
+}
+
+/**
+ * Dates are serialized as ISO strings, so we do not treat them as objects.
+ */
+export function isDateType(type: Type): boolean {
+    return "objectMembers" in type && type.name === "Date" && Object.keys(type.objectMembers).length === 0;
+}
+
+/**
+ * Turn the name of a type into something usable as a key or file name, e.g. Paginated<ITodoItem> to
+ * Paginated_ITodoItem.
+ */
+export function schemaName(name: string): string {
+    return name.replace(/[^A-Za-z0-9.\-_]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Convert a type to a schema, referencing named types instead of inlining them.
+ */
+export function typeToSchema(type: Type, options: ISchemaOptions): ISchema {
+    const name = getTypeName(type);
+    if (name !== null && !isDateType(type)) {
+        return {
+            $ref: options.refPrefix + schemaName(name) + options.refSuffix,
+        };
+    }
+    return typeToInlineSchema(type, options);
+}
+
+/**
+ * Convert a type to a schema. Named types nested in the type are referenced, but the type itself is
+ * always converted (use this for the definition of a named type).
+ */
+export function typeToInlineSchema(type: Type, options: ISchemaOptions): ISchema {
+    const schema = typeToInlineSchemaWithoutDocs(type, options);
+    if ("documentation" in type) {
+        return withAnnotations(schema, type, options);
+    }
+    return schema;
+}
+
+/**
+ * Add the documentation and tags (@deprecated, @default, @example) to a schema. OpenAPI 3.0 ignores
+ * everything next to a reference, so references are wrapped in this case.
+ */
+export function withAnnotations(schema: ISchema, doc: IDocumented, options: ISchemaOptions): ISchema {
+    const annotations: ISchema = {};
+    if (doc.documentation !== null) {
+        annotations.description = doc.documentation;
+    }
+    if (doc.deprecated !== undefined) {
+        annotations.deprecated = true;
+    }
+    if (doc.default !== undefined) {
+        annotations.default = doc.default;
+    }
+    if (doc.example !== undefined) {
+        if (options.dialect === "openapi") {
+            annotations.example = doc.example;
+        } else {
+            annotations.examples = [doc.example];
+        }
+    }
+    if (Object.keys(annotations).length === 0) {
+        return schema;
+    }
+    if ("$ref" in schema && options.dialect === "openapi") {
+        return {
+            allOf: [schema],
+            ...annotations,
+        };
+    }
+    return {
+        ...schema,
+        ...annotations,
+    };
+}
+
+function typeToInlineSchemaWithoutDocs(type: Type, options: ISchemaOptions): ISchema {
+    if ("numbers" in type) {
+        return type.numbers === "all" ? { type: "number" } : { type: "number", enum: type.numbers };
+    }
+    if ("booleans" in type) {
+        return type.booleans === "all" ? { type: "boolean" } : { type: "boolean", enum: type.booleans };
+    }
+    if ("strings" in type) {
+        return type.strings === "all" ? { type: "string" } : { type: "string", enum: type.strings };
+    }
+    if ("enumValues" in type) {
+        return {
+            enum: Object.keys(type.enumValues).map((key) => type.enumValues[key]),
+            type: "string",
+        };
+    }
+    if ("arrayMembers" in type) {
+        return {
+            items: typeToSchema(type.arrayMembers, options),
+            type: "array",
+        };
+    }
+    if ("tupleMembers" in type) {
+        if (options.dialect === "draft-07") {
+            return {
+                additionalItems: false,
+                items: type.tupleMembers.map((member) => typeToSchema(member, options)),
+                minItems: type.tupleMembers.length,
+                type: "array",
+            };
+        }
+        return {
+            items: type.tupleMembers.length === 0
+                ? {}
+                : { anyOf: type.tupleMembers.map((member) => typeToSchema(member, options)) },
+            maxItems: type.tupleMembers.length,
+            minItems: type.tupleMembers.length,
+            type: "array",
+        };
+    }
+    if ("objectMembers" in type) {
+        if (isDateType(type)) {
+            return {
+                format: "date-time",
+                type: "string",
+            };
+        }
+        return membersToSchema(type.objectMembers, options);
+    }
+    if ("dictionaryValue" in type) {
+        const additionalProperties = typeToSchema(type.dictionaryValue, options);
+        if (Object.keys(type.dictionaryMembers).length === 0) {
+            return {
+                additionalProperties,
+                type: "object",
+            };
+        }
+        return {
+            additionalProperties,
+            ...membersToSchema(type.dictionaryMembers, options),
+        };
+    }
+    if ("null" in type) {
+        if (options.dialect === "draft-07") {
+            return {
+                type: "null",
+            };
+        }
+        return {
+            enum: [null],
+            nullable: true,
+        };
+    }
+    if ("undefined" in type) {
+        return {};
+    }
+    if ("reference" in type) {
+        return {
+            $ref: options.refPrefix + schemaName(type.reference) + options.refSuffix,
+        };
+    }
+    if ("intersection" in type) {
+        if (type.intersection.length === 0) {
+            return {};
+        }
+        return {
+            allOf: type.intersection.map((member) => typeToSchema(member, options)),
+        };
+    }
+    if ("union" in type) {
+        return unionToSchema(type.union, options);
+    }
+    return {};
+}
+
+function membersToSchema(members: { [name: string]: Type }, options: ISchemaOptions): ISchema {
+    const properties: { [name: string]: ISchema } = {};
+    const required: string[] = [];
+    for (const key of Object.keys(members)) {
+        const [memberType, optional] = stripUndefined(members[key]);
+        properties[key] = typeToSchema(memberType, options);
+        if (!optional) {
+            required.push(key);
+        }
+    }
+    if (required.length === 0) {
+        return {
+            properties,
+            type: "object",
+        };
+    }
+    return {
+        properties,
+        required,
+        type: "object",
+    };
+}
+
+function unionToSchema(members: Type[], options: ISchemaOptions): ISchema {
+    const nullable = members.some((member) => "null" in member);
+    const remaining = members.filter((member) => !("null" in member) && !("undefined" in member));
+    if (remaining.length === 0) {
+        // never matches no value at all, null | undefined only null
+        return nullable ? typeToSchema({ null: true }, options) : { not: {} };
+    }
+    const literals = mergeLiterals(remaining);
+    let schema: ISchema;
+    if (literals !== null) {
+        schema = literals;
+    } else if (remaining.length === 1) {
+        schema = typeToSchema(remaining[0], options);
+    } else {
+        schema = {
+            anyOf: remaining.map((member) => typeToSchema(member, options)),
+        };
+    }
+    if (!nullable) {
+        return schema;
+    }
+    if (options.dialect === "draft-07") {
+        return withNullType(schema);
+    }
+    if ("$ref" in schema) {
+        return {
+            allOf: [schema],
+            nullable: true,
+        };
+    }
+    if (Array.isArray(schema.enum)) {
+        return {
+            ...schema,
+            enum: [...schema.enum, null],
+            nullable: true,
+        };
+    }
+    return {
+        ...schema,
+        nullable: true,
+    };
+}
+
+function withNullType(schema: ISchema): ISchema {
+    if (typeof schema.type === "string" && Array.isArray(schema.enum)) {
+        return {
+            ...schema,
+            enum: [...schema.enum, null],
+            type: [schema.type, "null"],
+        };
+    }
+    if (typeof schema.type === "string") {
+        return {
+            ...schema,
+            type: [schema.type, "null"],
+        };
+    }
+    if (Array.isArray(schema.anyOf)) {
+        return {
+            ...schema,
+            anyOf: [...schema.anyOf, { type: "null" }],
+        };
+    }
+    return {
+        anyOf: [schema, { type: "null" }],
+    };
+}
+
+/**
+ * Merge a union of unnamed literals of the same primitive type (e.g. the members of an enum) into a
+ * single enum schema. Returns null if this is not possible.
+ */
+function mergeLiterals(members: Type[]): ISchema | null {
+    if (members.length === 0 || members.some((member) => getTypeName(member) !== null)) {
+        return null;
+    }
+    const values: Array<string | number | boolean> = [];
+    let primitive: string | null = null;
+    for (const member of members) {
+        let memberPrimitive: string;
+        if ("strings" in member && member.strings !== "all") {
+            memberPrimitive = "string";
+            values.push(...member.strings);
+        } else if ("numbers" in member && member.numbers !== "all") {
+            memberPrimitive = "number";
+            values.push(...member.numbers);
+        } else if ("booleans" in member && member.booleans !== "all") {
+            memberPrimitive = "boolean";
+            values.push(...member.booleans);
+        } else {
+            return null;
+        }
+        if (primitive !== null && primitive !== memberPrimitive) {
+            return null;
+        }
+        primitive = memberPrimitive;
+    }
+    return {
+        enum: values,
+        type: primitive,
+    };
+}
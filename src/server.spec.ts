@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import { IServerRequest, IServerResponse, registerITodoRoutes, ServerHandler } from "./example.server";
+import { printServer } from "./server";
+import { IExportedRouter } from "./types";
+
+function fakeRouter(routes: { [route: string]: ServerHandler }) {
+    const register = (method: string) => (routePath: string, handler: ServerHandler) => {
+        routes[`${method} ${routePath}`] = handler;
+    };
+    return {
+        delete: register("DELETE"),
+        get: register("GET"),
+        patch: register("PATCH"),
+        post: register("POST"),
+        put: register("PUT"),
+    };
+}
+
+function flush(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function fakeResponse(sent: Array<[string, unknown]>): IServerResponse {
+    const res: IServerResponse = {
+        end: () => sent.push(["end", undefined]),
+        json: (body) => sent.push(["json", body]),
+        set: (name, value) => {
+            sent.push([name, value]);
+            return res;
+        },
+        status: (code) => {
+            sent.push(["status", code]);
+            return res;
+        },
+    };
+    return res;
+}
+
+test("handlers are mounted at their routes with coerced params", async () => {
+    const routes: { [route: string]: ServerHandler } = {};
+    const requests: unknown[] = [];
+    registerITodoRoutes(fakeRouter(routes), {
+        createTask: async () => ({ body: 1, headers: { Location: "/todo/1" }, status: 201 }),
+        deleteTaskByID: async () => ({ status: 204 }),
+        getTaskByID: async (request) => {
+            requests.push(request);
+            return { status: 404 };
+        },
+        listAllTasks: async () => ({ body: [], status: 200 }),
+        partiallyUpdateTaskByID: async () => ({ status: 204 }),
+        updateTaskByID: async () => ({ status: 204 }),
+    });
+    expect(Object.keys(routes)).toContain("GET /todo/:id");
+
+    const req: IServerRequest = { headers: {}, params: { id: "42" }, query: { ifNotDue: "true" } };
+    const sent: Array<[string, unknown]> = [];
+    routes["GET /todo/:id"](req, fakeResponse(sent), () => 0);
+    await flush();
+    expect(requests).toEqual([{ params: { id: 42 }, query: { ifNotDue: true } }]);
+    expect(sent).toEqual([["status", 404], ["end", undefined]]);
+
+    const created: Array<[string, unknown]> = [];
+    routes["POST /todo/create"]({ body: {}, headers: {}, params: {}, query: {} }, fakeResponse(created), () => 0);
+    await flush();
+    expect(created).toEqual([["status", 201], ["Location", "/todo/1"], ["json", 1]]);
+});
+
+test("the generated module compiles with types which are no identifiers", () => {
+    const routers: IExportedRouter[] = [{
+        documentation: null,
+        name: "IRoutes",
+        routeBase: "/",
+        routes: [{
+            documentation: null,
+            methods: [{
+                authorization: null,
+                body: null,
+                cookies: [],
+                customMethod: false,
+                documentation: null,
+                headers: [],
+                method: "GET",
+                name: "getError",
+                params: [{
+                    documentation: null,
+                    name: "id",
+                    type: { documentation: null, name: null, numbers: "all" },
+                }],
+                query: [],
+                responses: [{
+                    body: {
+                        documentation: null,
+                        name: "Api.IError",
+                        objectMembers: { message: { documentation: null, name: null, strings: "all" } },
+                    },
+                    documentation: null,
+                    headers: [],
+                    status: 400,
+                }],
+            }],
+            route: "/errors/:id",
+        }],
+    }];
+    const source = printServer(routers);
+    expect(source).toContain("export type Api_IError = {");
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "docroutes-"));
+    const fileName = path.join(directory, "server.ts");
+    try {
+        fs.writeFileSync(fileName, source);
+        const program = ts.createProgram([fileName], {
+            noEmit: true,
+            strict: true,
+            target: ts.ScriptTarget.ES2017,
+            types: [],
+        });
+        expect(ts.getPreEmitDiagnostics(program).map((diagnostic) => diagnostic.messageText)).toEqual([]);
+    } finally {
+        fs.unlinkSync(fileName);
+        fs.rmdirSync(directory);
+    }
+});
@@ -0,0 +1,294 @@
+import * as path from "path";
+import { uniqueIdentifier } from "./identifiers";
+import { collectNamedTypes, schemaName } from "./schema";
+import { splitUnion, stripUndefined } from "./typeOperations";
+import { IExportedRouteMethod, IExportedRouter, IQueryParam, Type } from "./types";
+import {
+    getTypeIdentifiers,
+    ITypeIdentifiers,
+    printDocComment,
+    printPropertyName,
+    printTypeScriptDeclarations,
+    printTypeScriptParams,
+    printTypeScriptType,
+} from "./typescript";
+
+const INDENT = "    ";
+
+type Coercion = "boolean" | "number" | "string";
+
+const PRELUDE = `/**
+ * The subset of Express the handlers need. Cookies are only available with a cookie parser (e.g.
+ * cookie-parser) and bodies with a JSON body parser (e.g. express.json()).
+ */
+export interface IServerRequest {
+    params: { [name: string]: string };
+    query: { [name: string]: unknown };
+    headers: { [name: string]: string | string[] | undefined };
+    cookies?: { [name: string]: string };
+    body?: unknown;
+}
+
+export interface IServerResponse {
+    status(code: number): IServerResponse;
+    set(name: string, value: string): IServerResponse;
+    json(body: unknown): unknown;
+    end(): unknown;
+}
+
+export type ServerHandler = (req: IServerRequest, res: IServerResponse, next: (error?: unknown) => void) => void;
+
+type Coercion = "boolean" | "number" | "string";
+
+interface IRequestSpec {
+    params: { [name: string]: Coercion };
+    query: { [name: string]: Coercion };
+    headers: string[];
+    cookies: string[];
+    authorization: boolean;
+    body: boolean;
+}
+
+/**
+ * Path and query parameters arrive as strings, convert them to numbers and booleans where declared.
+ */
+function coerce(value: unknown, coercion: Coercion): unknown {
+    if (typeof value !== "string") {
+        return value;
+    }
+    if (coercion === "number" && value.trim() !== "" && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    if (coercion === "boolean" && (value === "true" || value === "false")) {
+        return value === "true";
+    }
+    return value;
+}
+
+/**
+ * Collect the declared parts of a request, the result is narrowed to the request type of the handler.
+ */
+function buildRequest(req: IServerRequest, spec: IRequestSpec): unknown {
+    const request: { [key: string]: unknown } = {};
+    if (Object.keys(spec.params).length > 0) {
+        const params: { [name: string]: unknown } = {};
+        for (const name of Object.keys(spec.params)) {
+            params[name] = coerce(req.params[name], spec.params[name]);
+        }
+        request.params = params;
+    }
+    if (Object.keys(spec.query).length > 0) {
+        const query: { [name: string]: unknown } = {};
+        for (const name of Object.keys(spec.query)) {
+            if (req.query[name] !== undefined) {
+                query[name] = coerce(req.query[name], spec.query[name]);
+            }
+        }
+        request.query = query;
+    }
+    if (spec.headers.length > 0) {
+        const headers: { [name: string]: unknown } = {};
+        for (const name of spec.headers) {
+            if (req.headers[name.toLowerCase()] !== undefined) {
+                headers[name] = req.headers[name.toLowerCase()];
+            }
+        }
+        request.headers = headers;
+    }
+    if (spec.cookies.length > 0) {
+        const cookies: { [name: string]: unknown } = {};
+        for (const name of spec.cookies) {
+            if (req.cookies !== undefined && req.cookies[name] !== undefined) {
+                cookies[name] = req.cookies[name];
+            }
+        }
+        request.cookies = cookies;
+    }
+    if (spec.authorization) {
+        request.authorization = req.headers.authorization;
+    }
+    if (spec.body) {
+        request.body = req.body;
+    }
+    return request;
+}
+
+function sendResult(
+    res: IServerResponse,
+    result: { status: number; body?: unknown; headers?: { [name: string]: unknown } },
+): void {
+    res.status(result.status);
+    if (result.headers !== undefined) {
+        for (const name of Object.keys(result.headers)) {
+            if (result.headers[name] !== undefined) {
+                res.set(name, String(result.headers[name]));
+            }
+        }
+    }
+    if (result.body === undefined) {
+        res.end();
+    } else {
+        res.json(result.body);
+    }
+}
+`;
+
+/**
+ * Generate a TypeScript module with a handler interface and a registration function for every router.
+ * Every method of a router becomes a method of the handler interface, taking the typed request and
+ * returning a promise of the response as a union discriminated by the status code. The registration
+ * function mounts the handlers at their routes on an Express router, so implementations which do not
+ * match the documented routes fail to compile.
+ */
+export function printServer(routers: IExportedRouter[]): string {
+    const namedTypes = collectNamedTypes(routers);
+    const identifiers = getTypeIdentifiers(namedTypes);
+    const declarations = printTypeScriptDeclarations(namedTypes, identifiers);
+    return [
+        "// This file was generated by docroutes, do not edit it by hand.\n/* tslint:disable */\n",
+        PRELUDE,
+        ...(declarations !== "" ? [declarations] : []),
+        ...routers.map((router) => printServerRouter(router, identifiers)),
+    ].join("\n");
+}
+
+function printServerRouter(router: IExportedRouter, identifiers: ITypeIdentifiers): string {
+    const name = schemaName(router.name);
+    const methodNames: string[] = [];
+    const usedMethods: string[] = [];
+    const handlers: string[] = [];
+    const registrations: string[] = [];
+    for (const route of router.routes) {
+        const routePath = path.posix.join(router.routeBase, route.route);
+        for (const method of route.methods) {
+            const methodName = uniqueIdentifier(method.name, methodNames);
+            methodNames.push(methodName);
+            const routerMethod = method.method.toLowerCase();
+            if (!usedMethods.includes(routerMethod)) {
+                usedMethods.push(routerMethod);
+            }
+            handlers.push(printHandler(methodName, routePath, method, identifiers));
+            registrations.push(printRegistration(`${name}Handlers`, methodName, routerMethod, routePath, method));
+        }
+    }
+    return printDocComment(router.documentation, "", router)
+        + `export interface ${name}Handlers {
+${handlers.join("\n")}}
+
+/**
+ * The methods of an Express router used to mount the handlers of ${router.name}.
+ */
+export interface ${name}Router {
+${usedMethods.map((method) => `${INDENT}${method}(path: string, handler: ServerHandler): unknown;\n`).join("")}}
+
+/**
+ * Mount the handlers of ${router.name} on an Express router (or application).
+ */
+export function register${name}(router: ${name}Router, handlers: ${name}Handlers): void {
+${registrations.join("")}}
+`;
+}
+
+function printHandler(
+    methodName: string,
+    routePath: string,
+    method: IExportedRouteMethod,
+    identifiers: ITypeIdentifiers,
+): string {
+    const indent = INDENT + INDENT;
+    const requestMembers: string[] = [];
+    if (method.params.length > 0) {
+        const params = method.params.map((param) => ({ ...param, required: true }));
+        requestMembers.push(`params: ${printTypeScriptParams(params, identifiers, indent)};`);
+    }
+    for (const [name, params] of [
+        ["query", method.query],
+        ["headers", method.headers],
+        ["cookies", method.cookies],
+    ] as Array<[string, IQueryParam[]]>) {
+        if (params.length > 0) {
+            requestMembers.push(`${name}: ${printTypeScriptParams(params, identifiers, indent)};`);
+        }
+    }
+    if (method.authorization !== null) {
+        requestMembers.push(`authorization: ${printTypeScriptType(method.authorization.type, identifiers, indent)};`);
+    }
+    if (method.body !== null) {
+        const [bodyType, optional] = stripUndefined(method.body.type);
+        requestMembers.push(`body${optional ? "?" : ""}: ${printTypeScriptType(bodyType, identifiers, indent)};`);
+    }
+    const requestType = requestMembers.length === 0
+        ? "{}"
+        : `{\n${requestMembers.map((member) => `${indent}${member}\n`).join("")}${INDENT}}`;
+
+    let resultType: string;
+    if (method.responses.length === 0) {
+        resultType = "{ status: number; body?: unknown }";
+    } else {
+        resultType = "\n" + method.responses.map((response) => {
+            const members = [`status: ${response.status}`];
+            if (response.body !== null) {
+                members.push(`body: ${printTypeScriptType(response.body, identifiers, indent)}`);
+            }
+            if (response.headers.length > 0) {
+                members.push(`headers: { ${response.headers.map((header) =>
+                    `${printPropertyName(header.name)}${header.required ? "" : "?"}: `
+                    + printTypeScriptType(stripUndefined(header.type)[0], identifiers, indent),
+                ).join("; ")} }`);
+            }
+            return `${indent}| { ${members.join("; ")} }\n`;
+        }).join("") + INDENT;
+    }
+
+    const doc = [`${method.method} ${routePath}`];
+    if (method.documentation !== null) {
+        doc.push("", method.documentation);
+    }
+    return printDocComment(doc.join("\n"), INDENT, method)
+        + `${INDENT}${methodName}(request: ${requestType}): Promise<${resultType}>;\n`;
+}
+
+function printRegistration(
+    handlersName: string,
+    methodName: string,
+    routerMethod: string,
+    routePath: string,
+    method: IExportedRouteMethod,
+): string {
+    const indent = INDENT + INDENT;
+    const spec = [
+        `${indent}${INDENT}authorization: ${method.authorization !== null},`,
+        `${indent}${INDENT}body: ${method.body !== null},`,
+        `${indent}${INDENT}cookies: ${JSON.stringify(method.cookies.map((param) => param.name))},`,
+        `${indent}${INDENT}headers: ${JSON.stringify(method.headers.map((param) => param.name))},`,
+        `${indent}${INDENT}params: ${printCoercions(method.params.map((param) => ({ ...param, required: true })))},`,
+        `${indent}${INDENT}query: ${printCoercions(method.query)},`,
+    ];
+    return `${INDENT}router.${routerMethod}(${JSON.stringify(routePath)}, (req, res, next) => {
+${indent}const request = buildRequest(req, {
+${spec.map((line) => line + "\n").join("")}${indent}}) as Parameters<${handlersName}[${JSON.stringify(methodName)}]>[0];
+${indent}handlers.${methodName}(request).then((result) => sendResult(res, result), next);
+${INDENT}});
+`;
+}
+
+function printCoercions(params: IQueryParam[]): string {
+    if (params.length === 0) {
+        return "{}";
+    }
+    return `{ ${params.map((param) => `${printPropertyName(param.name)}: "${getCoercion(param.type)}"`).join(", ")} }`;
+}
+
+/**
+ * Values which are only numbers (or only booleans) are converted, all other values are passed as they are.
+ */
+function getCoercion(type: Type): Coercion {
+    const members = splitUnion(stripUndefined(type)[0]);
+    if (members.length > 0 && members.every((member) => "numbers" in member)) {
+        return "number";
+    }
+    if (members.length > 0 && members.every((member) => "booleans" in member)) {
+        return "boolean";
+    }
+    return "string";
+}
@@ -0,0 +1,69 @@
+import {
+    indexedAccess,
+    isAssignable,
+    isPrimitiveType,
+    joinUnion,
+    literalKeys,
+    makeOptional,
+    omitMembers,
+    splitUnion,
+} from "./typeOperations";
+import { Type } from "./types";
+
+const str: Type = { documentation: null, name: null, strings: "all" };
+const num: Type = { documentation: null, name: null, numbers: "all" };
+const status: Type = { documentation: null, name: null, strings: ["open", "done"] };
+const item: Type = {
+    documentation: null,
+    name: "IItem",
+    objectMembers: {
+        id: num,
+        status,
+        title: makeOptional(str),
+    },
+};
+
+test("literalKeys", () => {
+    expect(literalKeys(status)).toEqual(["open", "done"]);
+    expect(literalKeys(joinUnion([status, { documentation: null, name: null, numbers: [1] }], null)))
+        .toEqual(["open", "done", "1"]);
+    expect(literalKeys(str)).toBe("all");
+});
+
+test("isAssignable", () => {
+    const [open, done] = splitUnion(status);
+    expect(isAssignable(open, status)).toBe(true);
+    expect(isAssignable(status, open)).toBe(false);
+    expect(isAssignable(done, str)).toBe(true);
+    expect(isAssignable({ null: true }, joinUnion([str, { null: true }], null))).toBe(true);
+    expect(isAssignable(item, { documentation: null, name: null, objectMembers: { id: num } })).toBe(true);
+    expect(isAssignable(item, { documentation: null, name: null, objectMembers: { id: str } })).toBe(false);
+});
+
+test("indexedAccess and omitMembers", () => {
+    expect(indexedAccess(item, { documentation: null, name: null, strings: ["id"] })).toBe(num);
+    expect(Object.keys((omitMembers(item, ["id"], "Omit") as { objectMembers: {} }).objectMembers))
+        .toEqual(["status", "title"]);
+    expect(() => indexedAccess(item, { documentation: null, name: null, strings: ["missing"] })).toThrow();
+});
+
+test("dictionaries", () => {
+    const dictionary: Type = {
+        dictionaryKey: str,
+        dictionaryMembers: { id: num },
+        dictionaryValue: item,
+        documentation: null,
+        name: null,
+    };
+    expect(indexedAccess(dictionary, { documentation: null, name: null, strings: ["id"] })).toBe(num);
+    expect(indexedAccess(dictionary, { documentation: null, name: null, strings: ["other"] })).toBe(item);
+    expect(isAssignable({ documentation: null, name: null, objectMembers: { a: item } }, dictionary)).toBe(true);
+    expect(isAssignable({ documentation: null, name: null, objectMembers: { a: num } }, dictionary)).toBe(false);
+});
+
+test("isPrimitiveType", () => {
+    expect(isPrimitiveType(status)).toBe(true);
+    expect(isPrimitiveType(joinUnion([str, num], null))).toBe(true);
+    expect(isPrimitiveType(item)).toBe(false);
+    expect(isPrimitiveType({ arrayMembers: num, documentation: null, name: null })).toBe(false);
+});
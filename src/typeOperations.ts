@@ -0,0 +1,277 @@
+import { Type } from "./types";
+
+/**
+ * Remove undefined from a union, returning the remaining type and whether undefined was part of it.
+ */
+export function stripUndefined(type: Type): [Type, boolean] {
+    if (!("union" in type) || !type.union.some((member) => "undefined" in member)) {
+        return [type, false];
+    }
+    const remaining = type.union.filter((member) => !("undefined" in member));
+    if (remaining.length === 1 && type.name === null && type.documentation === null) {
+        return [remaining[0], true];
+    }
+    return [{ ...type, union: remaining }, true];
+}
+
+/**
+ * Add undefined to a type (the representation of an optional member) unless it is already part of it.
+ */
+export function makeOptional(type: Type): Type {
+    if (stripUndefined(type)[1]) {
+        return type;
+    }
+    return {
+        documentation: null,
+        name: null,
+        union: [type, {
+            undefined: true,
+        }],
+    };
+}
+
+/**
+ * Split a type into the members of a union. Lists of literals are split into single literals.
+ */
+export function splitUnion(type: Type): Type[] {
+    if ("union" in type) {
+        return type.union.reduce((acc: Type[], member) => acc.concat(splitUnion(member)), []);
+    }
+    if ("strings" in type && type.strings !== "all" && type.strings.length !== 1) {
+        return type.strings.map((s): Type => ({ documentation: type.documentation, name: null, strings: [s] }));
+    }
+    if ("numbers" in type && type.numbers !== "all" && type.numbers.length !== 1) {
+        return type.numbers.map((n): Type => ({ documentation: type.documentation, name: null, numbers: [n] }));
+    }
+    if ("booleans" in type && type.booleans !== "all" && type.booleans.length !== 1) {
+        return type.booleans.map((b): Type => ({ documentation: type.documentation, name: null, booleans: [b] }));
+    }
+    return [type];
+}
+
+/**
+ * Build a union from the given types, flattening unnamed unions and dropping never (the empty union).
+ */
+export function joinUnion(types: Type[], name: string | null): Type {
+    const members = types.reduce((acc: Type[], type) => {
+        if ("union" in type && type.name === null && type.documentation === null) {
+            return acc.concat(type.union);
+        }
+        return acc.concat([type]);
+    }, []);
+    if (members.length === 1 && name === null) {
+        return members[0];
+    }
+    const [member] = members;
+    if (members.length === 1 && "name" in member && !("enumValues" in member)) {
+        return {
+            ...member,
+            name,
+        };
+    }
+    return {
+        documentation: null,
+        name,
+        union: members,
+    };
+}
+
+/**
+ * Get the property names described by a type used as key (e.g. the result of keyof or a union of
+ * string literals). Returns "all" if the type describes all strings or numbers.
+ */
+export function literalKeys(type: Type): string[] | "all" {
+    if ("strings" in type) {
+        return type.strings;
+    }
+    if ("numbers" in type) {
+        return type.numbers === "all" ? "all" : type.numbers.map((n) => n.toString());
+    }
+    if ("union" in type) {
+        return type.union.map(literalKeys).reduce((acc: string[] | "all", keys) => {
+            if (acc === "all" || keys === "all") {
+                return "all";
+            }
+            return acc.concat(keys.filter((key) => !acc.includes(key)));
+        }, []);
+    }
+    throw new Error("Type can not be used as key");
+}
+
+/**
+ * Check whether values of a type can be written as a plain string, e.g. in a URL (strings, numbers,
+ * booleans, enums and unions of them).
+ */
+export function isPrimitiveType(type: Type): boolean {
+    if ("strings" in type || "numbers" in type || "booleans" in type || "enumValues" in type) {
+        return true;
+    }
+    if ("union" in type) {
+        return type.union.length > 0 && type.union.every(isPrimitiveType);
+    }
+    return false;
+}
+
+/**
+ * Look up the type of the members with the given keys (T[K]).
+ */
+export function indexedAccess(objectType: Type, indexType: Type): Type {
+    if ("union" in objectType) {
+        return joinUnion(objectType.union.map((member) => indexedAccess(member, indexType)), null);
+    }
+    if ("arrayMembers" in objectType && "numbers" in indexType) {
+        return objectType.arrayMembers;
+    }
+    if ("tupleMembers" in objectType && "numbers" in indexType) {
+        if (indexType.numbers === "all") {
+            return joinUnion(objectType.tupleMembers, null);
+        }
+        return joinUnion(indexType.numbers.map((n) => {
+            if (n < 0 || n >= objectType.tupleMembers.length) {
+                throw new Error(`Tuple has no element at index ${n}`);
+            }
+            return objectType.tupleMembers[n];
+        }), null);
+    }
+    const objectMembers = getObjectMembers(objectType);
+    const keys = literalKeys(indexType);
+    if (keys === "all" && "dictionaryValue" in objectType) {
+        return joinUnion([
+            objectType.dictionaryValue,
+            ...Object.keys(objectMembers).map((key) => objectMembers[key]),
+        ], null);
+    }
+    return joinUnion((keys === "all" ? Object.keys(objectMembers) : keys).map((key) => {
+        if (Object.prototype.hasOwnProperty.call(objectMembers, key)) {
+            return objectMembers[key];
+        }
+        if ("dictionaryValue" in objectType) {
+            return objectType.dictionaryValue;
+        }
+        throw new Error(`Type has no member ${key}`);
+    }), null);
+}
+
+/**
+ * Remove the members with the given keys from an object type (Omit<T, K>).
+ */
+export function omitMembers(objectType: Type, keys: string[], name: string | null): Type {
+    const objectMembers = getObjectMembers(objectType);
+    const result: { [name: string]: Type } = {};
+    for (const key of Object.keys(objectMembers)) {
+        if (!keys.includes(key)) {
+            result[key] = objectMembers[key];
+        }
+    }
+    return {
+        documentation: "documentation" in objectType ? objectType.documentation : null,
+        name,
+        objectMembers: result,
+    };
+}
+
+function getObjectMembers(type: Type): { [name: string]: Type } {
+    if ("objectMembers" in type) {
+        return type.objectMembers;
+    }
+    if ("dictionaryValue" in type) {
+        return type.dictionaryMembers;
+    }
+    if ("intersection" in type) {
+        return type.intersection.reduce((acc, member) => ({ ...acc, ...getObjectMembers(member) }), {});
+    }
+    throw new Error("Expected an object type");
+}
+
+/**
+ * Check whether a value of type a can be assigned to type b. This is a (quite) simplified version of
+ * the check the compiler performs and is used to evaluate conditional types like Exclude<T, U>.
+ */
+export function isAssignable(a: Type, b: Type): boolean {
+    if ("union" in b && !("union" in a) && b.union.some((member) => isAssignable(a, member))) {
+        return true;
+    }
+    if ("union" in a) {
+        return a.union.every((member) => isAssignable(member, b));
+    }
+    if ("intersection" in b) {
+        return b.intersection.every((member) => isAssignable(a, member));
+    }
+    if ("name" in a && "name" in b && a.name !== null && a.name === b.name) {
+        return true;
+    }
+    if ("reference" in a || "reference" in b) {
+        // references are only known by name
+        return referencedName(a) !== null && referencedName(a) === referencedName(b);
+    }
+    if ("null" in a || "null" in b) {
+        return "null" in a && "null" in b;
+    }
+    if ("undefined" in a || "undefined" in b) {
+        return "undefined" in a && "undefined" in b;
+    }
+    if ("strings" in a && "strings" in b) {
+        return isLiteralSubset(a.strings, b.strings);
+    }
+    if ("numbers" in a && "numbers" in b) {
+        return isLiteralSubset(a.numbers, b.numbers);
+    }
+    if ("booleans" in a && "booleans" in b) {
+        return isLiteralSubset(a.booleans, b.booleans);
+    }
+    if ("arrayMembers" in a && "arrayMembers" in b) {
+        return isAssignable(a.arrayMembers, b.arrayMembers);
+    }
+    if ("tupleMembers" in a && "arrayMembers" in b) {
+        return a.tupleMembers.every((member) => isAssignable(member, b.arrayMembers));
+    }
+    if ("tupleMembers" in a && "tupleMembers" in b) {
+        return a.tupleMembers.length === b.tupleMembers.length
+            && a.tupleMembers.every((member, index) => isAssignable(member, b.tupleMembers[index]));
+    }
+    if ("dictionaryValue" in b) {
+        if ("dictionaryValue" in a) {
+            return isAssignable(a.dictionaryValue, b.dictionaryValue);
+        }
+        if (!("objectMembers" in a)) {
+            return false;
+        }
+        return Object.keys(a.objectMembers).every((key) =>
+            isAssignable(stripUndefined(a.objectMembers[key])[0], b.dictionaryValue),
+        );
+    }
+    if ("objectMembers" in b) {
+        if ("strings" in a || "numbers" in a || "booleans" in a) {
+            return false;
+        }
+        if (!("objectMembers" in a) && !("dictionaryValue" in a) && !("intersection" in a)) {
+            return Object.keys(b.objectMembers).length === 0;
+        }
+        const aMembers = getObjectMembers(a);
+        return Object.keys(b.objectMembers).every((key) => {
+            const [bMember, optional] = stripUndefined(b.objectMembers[key]);
+            if (!Object.prototype.hasOwnProperty.call(aMembers, key)) {
+                return optional;
+            }
+            return isAssignable(optional ? stripUndefined(aMembers[key])[0] : aMembers[key], bMember);
+        });
+    }
+    return false;
+}
+
+function referencedName(type: Type): string | null {
+    if ("reference" in type) {
+        return type.reference;
+    }
+    return "name" in type ? type.name : null;
+}
+
+function isLiteralSubset<T>(a: "all" | T[], b: "all" | T[]): boolean {
+    if (b === "all") {
+        return true;
+    }
+    if (a === "all") {
+        return false;
+    }
+    return a.every((value) => b.includes(value));
+}
@@ -1,9 +1,34 @@
-export interface IDocumented {
+/**
+ * The JSDoc tags we understand. Values of @default and @example are parsed as JSON if possible.
+ */
+export interface IDocTags {
+    // the explanation given with @deprecated (possibly empty)
+    deprecated?: string;
+    // the API version given with @since
+    since?: string;
+    // links or references given with @see
+    see?: string[];
+    default?: unknown;
+    example?: unknown;
+}
+
+export interface IDocumented extends IDocTags {
     documentation: string | null;
 }
 
+/**
+ * Where a router, route, method or named type is declared.
+ */
+export interface ISourceLocation {
+    fileName: string;
+    // 1-based, 0 if the position is unknown
+    line: number;
+}
+
 export interface INamedType extends IDocumented {
     name: string | null;
+    // only set for named types
+    source?: ISourceLocation;
 }
 
 export interface INumberType extends INamedType {
@@ -21,6 +46,7 @@ export interface IStringType extends INamedType {
 export interface IEnumType extends IDocumented {
     // TODO: keep this? we currently don't generate it!
     name: string;
+    source?: ISourceLocation;
     enumValues: {
         [name: string]: string;
     };
@@ -40,6 +66,17 @@ export interface IObjectType extends INamedType {
     };
 }
 
+/**
+ * An object with an index signature ({ [key: string]: T }), possibly with some additional fixed members.
+ */
+export interface IDictionaryType extends INamedType {
+    dictionaryKey: Type;
+    dictionaryValue: Type;
+    dictionaryMembers: {
+        [name: string]: Type;
+    };
+}
+
 export interface INullType {
     null: true;
 }
@@ -48,6 +85,14 @@ export interface IUndefinedType {
     undefined: true;
 }
 
+/**
+ * A reference to a named type from within its own definition, e.g. the children of a tree node. The
+ * referenced type is the enclosing type with this name.
+ */
+export interface IReferenceType {
+    reference: string;
+}
+
 export interface IUnionType extends INamedType {
     union: Type[];
 }
@@ -63,8 +108,10 @@ export type Type = INumberType
     | IArrayType
     | ITupleType
     | IObjectType
+    | IDictionaryType
     | INullType
     | IUndefinedType
+    | IReferenceType
     | IUnionType
     | IIntersectionType;
 
@@ -81,6 +128,7 @@ export interface IParam extends IDocumented {
     type: Type;
 }
 
+// a query parameter, header or cookie
 export interface IQueryParam extends IDocumented {
     name: string;
     required: boolean;
@@ -90,25 +138,46 @@ export interface IQueryParam extends IDocumented {
 export interface IResponse extends IDocumented {
     status: number;
     body: Type | null;
+    headers: IQueryParam[];
 }
 
-export interface IExportedRouteMethod extends IDocumented {
+export type StandardMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE" | "CONNECT" | "OPTIONS" | "TRACE";
+
+// the parts of a route method not depending on whether its method is a standard one
+export interface IRouteMethodBase extends IDocumented {
     name: string;
-    method: "GET" | "HEAD" | "POST" | "PUT" | "DELETE" | "CONNECT" | "OPTIONS" | "TRACE";
     authorization: IAuthroization | null;
     body: IBody | null;
     params: IParam[];
     query: IQueryParam[];
+    headers: IQueryParam[];
+    cookies: IQueryParam[];
     responses: IResponse[];
+    source?: ISourceLocation;
+}
+
+export interface IStandardRouteMethod extends IRouteMethodBase {
+    method: StandardMethod;
+    customMethod: false;
 }
 
+export interface ICustomRouteMethod extends IRouteMethodBase {
+    // one of the configured custom methods (e.g. PROPFIND)
+    method: string;
+    customMethod: true;
+}
+
+export type IExportedRouteMethod = IStandardRouteMethod | ICustomRouteMethod;
+
 export interface IExportedRoute extends IDocumented {
     route: string;
     methods: IExportedRouteMethod[];
+    source?: ISourceLocation;
 }
 
 export interface IExportedRouter extends IDocumented {
     name: string;
     routeBase: string;
     routes: IExportedRoute[];
+    source?: ISourceLocation;
 }
@@ -15,6 +15,8 @@ export enum TaskStatus {
 export interface ITodoItem {
     /**
      * The thing we want to do.
+     *
+     * @example "Buy milk"
      */
     item: string;
     /**
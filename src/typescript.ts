@@ -0,0 +1,205 @@
+import { hasTags, printTags } from "./docTags";
+import { typeIdentifier } from "./identifiers";
+import { INamedTypes, isDateType } from "./schema";
+import { stripUndefined } from "./typeOperations";
+import { IDocTags, IQueryParam, Type } from "./types";
+
+const INDENT = "    ";
+
+/**
+ * The identifiers the named types are declared as, by the name of the type. Names like Api.IError or
+ * IPage<"a-b"> are no valid identifiers, so they are replaced consistently for declarations and references.
+ */
+export interface ITypeIdentifiers {
+    [name: string]: string;
+}
+
+/**
+ * Pick a unique identifier for every named type.
+ */
+export function getTypeIdentifiers(namedTypes: INamedTypes): ITypeIdentifiers {
+    const identifiers: ITypeIdentifiers = {};
+    const taken: string[] = [];
+    for (const name of Object.keys(namedTypes)) {
+        identifiers[name] = typeIdentifier(name, taken);
+        taken.push(identifiers[name]);
+    }
+    return identifiers;
+}
+
+/**
+ * Print a type as TypeScript source. Named types are referenced by their identifier, so their declarations
+ * have to be printed as well (see printTypeScriptDeclarations). Dates are printed as string, as this is
+ * what they are serialized to.
+ */
+export function printTypeScriptType(type: Type, identifiers: ITypeIdentifiers, indent: string = ""): string {
+    if ("name" in type && type.name !== null && !isDateType(type)) {
+        return printTypeReference(type.name, identifiers);
+    }
+    return printTypeScriptInlineType(type, identifiers, indent);
+}
+
+/**
+ * Print a type alias for every named type.
+ */
+export function printTypeScriptDeclarations(namedTypes: INamedTypes, identifiers: ITypeIdentifiers): string {
+    return Object.keys(namedTypes).map((name) => {
+        const type = namedTypes[name];
+        const doc = "documentation" in type ? type.documentation : null;
+        return printDocComment(doc, "", "documentation" in type ? type : {})
+            + `export type ${printTypeReference(name, identifiers)} = `
+            + `${printTypeScriptInlineType(type, identifiers, "")};\n`;
+    }).join("\n");
+}
+
+/**
+ * Print a doc comment, followed by the tags (@deprecated, @since, ...) if there are any.
+ */
+export function printDocComment(documentation: string | null, indent: string, tags: IDocTags = {}): string {
+    const tagLines = printTags(tags);
+    const text = [
+        ...(documentation !== null && documentation !== "" ? [documentation] : []),
+        ...(tagLines.length > 0 ? [tagLines.join("\n")] : []),
+    ].join("\n\n");
+    if (text === "") {
+        return "";
+    }
+    const lines = text.split("\n").map((line) => `${indent} *${line === "" ? "" : " " + line}\n`);
+    return `${indent}/**\n${lines.join("")}${indent} */\n`;
+}
+
+/**
+ * Print an object type with a member for every param (query parameter, header, ...).
+ */
+export function printTypeScriptParams(params: IQueryParam[], identifiers: ITypeIdentifiers, indent: string): string {
+    const memberIndent = indent + INDENT;
+    return `{\n${params.map((param) => {
+        const [type] = stripUndefined(param.type);
+        return printDocComment(param.documentation, memberIndent, param)
+            + `${memberIndent}${printPropertyName(param.name)}${param.required ? "" : "?"}: `
+            + `${printTypeScriptType(type, identifiers, memberIndent)};\n`;
+    }).join("")}${indent}}`;
+}
+
+/**
+ * Quote a property name if it is not a valid identifier.
+ */
+export function printPropertyName(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// types without a declaration (e.g. in messages) get an identifier of their own
+function printTypeReference(name: string, identifiers: ITypeIdentifiers): string {
+    return Object.prototype.hasOwnProperty.call(identifiers, name) ? identifiers[name] : typeIdentifier(name, []);
+}
+
+function printTypeScriptInlineType(type: Type, identifiers: ITypeIdentifiers, indent: string): string {
+    if ("numbers" in type) {
+        return type.numbers === "all" ? "number" : printLiterals(type.numbers);
+    }
+    if ("booleans" in type) {
+        return type.booleans === "all" ? "boolean" : printLiterals(type.booleans);
+    }
+    if ("strings" in type) {
+        return type.strings === "all" ? "string" : printLiterals(type.strings);
+    }
+    if ("enumValues" in type) {
+        return printLiterals(Object.keys(type.enumValues).map((key) => type.enumValues[key]));
+    }
+    if ("arrayMembers" in type) {
+        const member = printTypeScriptType(type.arrayMembers, identifiers, indent);
+        return needsParentheses(type.arrayMembers) ? `Array<${member}>` : `${member}[]`;
+    }
+    if ("tupleMembers" in type) {
+        const members = type.tupleMembers.map((member) => printTypeScriptType(member, identifiers, indent));
+        return `[${members.join(", ")}]`;
+    }
+    if ("objectMembers" in type) {
+        if (isDateType(type)) {
+            return "string";
+        }
+        return printMembers([], type.objectMembers, identifiers, indent);
+    }
+    if ("dictionaryValue" in type) {
+        const key = "numbers" in type.dictionaryKey ? "number" : "string";
+        const index = `[key: ${key}]: ${printTypeScriptType(type.dictionaryValue, identifiers, indent + INDENT)};`;
+        return printMembers([index], type.dictionaryMembers, identifiers, indent);
+    }
+    if ("null" in type) {
+        return "null";
+    }
+    if ("undefined" in type) {
+        return "undefined";
+    }
+    if ("reference" in type) {
+        return printTypeReference(type.reference, identifiers);
+    }
+    if ("union" in type) {
+        if (type.union.length === 0) {
+            return "never";
+        }
+        return type.union.map((member) => printTypeScriptType(member, identifiers, indent)).join(" | ");
+    }
+    if ("intersection" in type) {
+        if (type.intersection.length === 0) {
+            return "unknown";
+        }
+        return type.intersection.map((member) => {
+            const printed = printTypeScriptType(member, identifiers, indent);
+            return needsParentheses(member) ? `(${printed})` : printed;
+        }).join(" & ");
+    }
+    return "unknown";
+}
+
+function printMembers(
+    extraLines: string[],
+    members: { [name: string]: Type },
+    identifiers: ITypeIdentifiers,
+    indent: string,
+): string {
+    const memberIndent = indent + INDENT;
+    const lines = [
+        ...extraLines.map((line) => memberIndent + line + "\n"),
+        ...Object.keys(members).map((key) => {
+            const [memberType, optional] = stripUndefined(members[key]);
+            // tags of a member are attached to its (unnamed) type
+            const doc = "documentation" in memberType && memberType.name === null && hasTags(memberType)
+                ? printDocComment(null, memberIndent, memberType)
+                : "";
+            const memberName = `${printPropertyName(key)}${optional ? "?" : ""}`;
+            const printed = printTypeScriptType(memberType, identifiers, memberIndent);
+            return `${doc}${memberIndent}${memberName}: ${printed};\n`;
+        }),
+    ];
+    if (lines.length === 0) {
+        return "{}";
+    }
+    return `{\n${lines.join("")}${indent}}`;
+}
+
+function printLiterals(values: Array<string | number | boolean>): string {
+    if (values.length === 0) {
+        return "never";
+    }
+    return values.map((value) => JSON.stringify(value)).join(" | ");
+}
+
+/**
+ * Whether a type has to be put into parentheses (or Array<...>) when it is a member of an array or intersection.
+ */
+export function needsParentheses(type: Type): boolean {
+    if ("name" in type && type.name !== null && !isDateType(type)) {
+        return false;
+    }
+    if ("union" in type || "intersection" in type) {
+        return true;
+    }
+    if ("strings" in type && type.strings !== "all" && type.strings.length > 1) {
+        return true;
+    }
+    if ("numbers" in type && type.numbers !== "all" && type.numbers.length > 1) {
+        return true;
+    }
+    return "booleans" in type && type.booleans !== "all" && type.booleans.length > 1;
+}
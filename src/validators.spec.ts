@@ -0,0 +1,106 @@
+import { IExportedRouter, Type } from "./types";
+import { printValidators } from "./validators";
+
+interface IValidationError {
+    path: string;
+    message: string;
+}
+
+// the part of the generated module the tests use
+interface IValidators {
+    routers: {
+        [router: string]: {
+            [method: string]: {
+                validateRequest(request: unknown): { errors: IValidationError[], value: { [name: string]: unknown } };
+                validateResponse(status: number, body: unknown): IValidationError[];
+            };
+        };
+    };
+    types: { [name: string]: (value: unknown) => IValidationError[] };
+    formatError(error: IValidationError): string;
+}
+
+// the generated module has no dependencies, so it is loaded just like node would
+const validators: IValidators = jest.requireActual("../example.validators.js");
+const routes = validators.routers.ITodoRoutes;
+
+test("valid requests pass and strings are coerced", () => {
+    const result = routes.getTaskByID.validateRequest({
+        params: { id: "12" },
+        query: { ifNotDue: "true", someSecondParam: "3" },
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({ params: { id: 12 }, query: { ifNotDue: true, someSecondParam: 3 } });
+});
+
+test("errors carry the path of the invalid value", () => {
+    const result = routes.createTask.validateRequest({
+        authorization: "token",
+        body: { created: "2019-01-01T00:00:00Z", due: null, status: "closed" },
+    });
+    expect(result.errors.map(validators.formatError)).toEqual([
+        "body.item: is required",
+        "body.status: expected \"open\" | \"started\" | \"onHold\"",
+    ]);
+    expect(routes.getTaskByID.validateRequest({ params: { id: "abc" } }).errors.map(validators.formatError))
+        .toEqual(["params.id: expected number"]);
+});
+
+test("responses are validated by status code", () => {
+    expect(routes.createTask.validateResponse(201, 1)).toEqual([]);
+    expect(routes.createTask.validateResponse(201, "1").map(validators.formatError))
+        .toEqual(["body: expected number"]);
+    expect(routes.createTask.validateResponse(500, undefined).map(validators.formatError))
+        .toEqual(["status: undeclared status code 500"]);
+});
+
+test("named types can be validated on their own", () => {
+    expect(validators.types.TodoList([])).toEqual([]);
+    expect(validators.types.TodoList([{ id: 1 }]).map(validators.formatError)).toContain("[0].item: is required");
+});
+
+test("missing parameters get their default", () => {
+    expect(routes.getTaskByID.validateRequest({ params: { id: "1" } }).value.query).toEqual({ ifNotDue: false });
+});
+
+test("names of types which are no identifiers are replaced in the function names", () => {
+    const error: Type = {
+        documentation: null,
+        name: "Api.IError",
+        objectMembers: { message: { documentation: null, name: null, strings: "all" } },
+    };
+    const code: Type = { documentation: null, name: "ICode<\"a-b\">", strings: ["a-b"] };
+    const routers: IExportedRouter[] = [{
+        documentation: null,
+        name: "IRoutes",
+        routeBase: "/",
+        routes: [{
+            documentation: null,
+            methods: [{
+                authorization: null,
+                body: null,
+                cookies: [],
+                customMethod: false,
+                documentation: null,
+                headers: [],
+                method: "GET",
+                name: "getCode",
+                params: [],
+                query: [],
+                responses: [
+                    { body: code, documentation: null, headers: [], status: 200 },
+                    { body: error, documentation: null, headers: [], status: 400 },
+                ],
+            }],
+            route: "/code",
+        }],
+    }];
+    const source = printValidators(routers);
+    expect(source).toContain("function validate_Api_IError(");
+    expect(source).toContain("function validate_ICode_a_b(");
+    const generated: Partial<IValidators> = {};
+    new Function("exports", source)(generated);
+    const types = generated.types as IValidators["types"];
+    expect(types["Api.IError"]({ message: "failed" })).toEqual([]);
+    expect(types["ICode<\"a-b\">"]("a-c").map((e) => e.path)).toEqual([""]);
+});
@@ -0,0 +1,463 @@
+import * as path from "path";
+import { typeIdentifier, uniqueIdentifier } from "./identifiers";
+import { isDateType } from "./schema";
+import { splitUnion, stripUndefined } from "./typeOperations";
+import { IExportedRouteMethod, IExportedRouter, IQueryParam, Type } from "./types";
+
+const INDENT = "    ";
+
+interface IValidatorContext {
+    // generated validation functions
+    functions: string[];
+    // names of the functions validating named types
+    named: { [name: string]: string };
+    // names of the functions validating unnamed types by their body, so equal types share a function
+    unnamed: { [body: string]: string };
+}
+
+/**
+ * How a string (from the path, the query, a header or a cookie) is converted before validating it.
+ */
+interface ICoercion {
+    array?: ICoercion;
+    boolean: boolean;
+    null: boolean;
+    number: boolean;
+}
+
+const RUNTIME = `function joinPath(path, key) {
+    if (typeof key === "number") {
+        return path + "[" + key + "]";
+    }
+    var property = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : "[" + JSON.stringify(key) + "]";
+    if (path === "") {
+        return property;
+    }
+    return property.charAt(0) === "[" ? path + property : path + "." + property;
+}
+
+function isObject(value) {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function coerce(value, coercion) {
+    if (coercion.array !== undefined) {
+        return (Array.isArray(value) ? value : [value]).map(function (item) {
+            return coerce(item, coercion.array);
+        });
+    }
+    if (typeof value !== "string") {
+        return value;
+    }
+    if (coercion.number && value.trim() !== "" && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    if (coercion.boolean && (value === "true" || value === "false")) {
+        return value === "true";
+    }
+    if (coercion.null && value === "null") {
+        return null;
+    }
+    return value;
+}
+
+/**
+ * Validate (and coerce) a group of values taken from strings, e.g. the query parameters. Missing values
+ * are replaced by their default.
+ */
+function validateGroup(values, params, path, errors, caseInsensitive) {
+    var result = {};
+    values = isObject(values) ? values : {};
+    for (var i = 0; i < params.length; i++) {
+        var param = params[i];
+        var value = values[param.name];
+        if (value === undefined && caseInsensitive) {
+            value = values[param.name.toLowerCase()];
+        }
+        var paramPath = joinPath(path, param.name);
+        if (value === undefined && param.default !== undefined) {
+            value = param.default;
+        }
+        if (value === undefined) {
+            if (param.required) {
+                errors.push({ message: "is required", path: paramPath });
+            }
+            continue;
+        }
+        value = coerce(value, param.coercion);
+        param.validate(value, paramPath, errors);
+        result[param.name] = value;
+    }
+    return result;
+}
+
+function formatError(error) {
+    return error.path + ": " + error.message;
+}
+`;
+
+/**
+ * Generate a standalone JavaScript module (CommonJS, without any dependencies) validating the named types
+ * as well as the requests and responses of every method of the given routers.
+ *
+ * Errors are reported as { path, message } (e.g. body.status: expected "open" | "done"). Values taken from
+ * strings (params, query parameters, headers and cookies) are coerced according to their declared type
+ * first, validateRequest returns the coerced request along with the errors.
+ */
+export function printValidators(routers: IExportedRouter[]): string {
+    const context: IValidatorContext = {
+        functions: [],
+        named: {},
+        unnamed: {},
+    };
+    const routerEntries = routers.map((router) => {
+        const methodNames: string[] = [];
+        const methodEntries: string[] = [];
+        for (const route of router.routes) {
+            for (const method of route.methods) {
+                const methodName = uniqueIdentifier(method.name, methodNames);
+                methodNames.push(methodName);
+                methodEntries.push(printMethodValidator(
+                    methodName,
+                    path.posix.join(router.routeBase, route.route),
+                    method,
+                    context,
+                ));
+            }
+        }
+        return `${INDENT}${JSON.stringify(router.name)}: {\n${methodEntries.join(",\n")}\n${INDENT}}`;
+    });
+    const typeEntries = Object.keys(context.named).map((name) =>
+        `${INDENT}${JSON.stringify(name)}: function (value) {\n`
+        + `${INDENT}${INDENT}var errors = [];\n`
+        + `${INDENT}${INDENT}${context.named[name]}(value, "", errors);\n`
+        + `${INDENT}${INDENT}return errors;\n`
+        + `${INDENT}}`,
+    );
+    return [
+        "// This file was generated by docroutes, do not edit it by hand.",
+        "\"use strict\";",
+        "",
+        RUNTIME,
+        ...context.functions,
+        `exports.formatError = formatError;\n`,
+        `exports.types = {\n${typeEntries.join(",\n")}\n};\n`,
+        `exports.routers = {\n${routerEntries.join(",\n")}\n};\n`,
+    ].join("\n");
+}
+
+function printMethodValidator(
+    methodName: string,
+    routePath: string,
+    method: IExportedRouteMethod,
+    context: IValidatorContext,
+): string {
+    const indent = INDENT + INDENT + INDENT;
+    const request: string[] = [
+        `${indent}var errors = [];`,
+        `${indent}var value = {};`,
+        `${indent}request = isObject(request) ? request : {};`,
+    ];
+    const groups: Array<[string, IQueryParam[], boolean]> = [
+        ["params", method.params.map((param) => ({ ...param, required: true })), false],
+        ["query", method.query, false],
+        ["headers", method.headers, true],
+        ["cookies", method.cookies, false],
+    ];
+    for (const [name, params, caseInsensitive] of groups) {
+        if (params.length === 0) {
+            continue;
+        }
+        const specs = params.map((param) => {
+            const [type] = stripUndefined(param.type);
+            const members = [
+                `coercion: ${JSON.stringify(getCoercion(type))}`,
+                ...(param.default !== undefined ? [`default: ${JSON.stringify(param.default)}`] : []),
+                `name: ${JSON.stringify(param.name)}`,
+                `required: ${param.required}`,
+                `validate: ${validatorFor(type, context)}`,
+            ];
+            return `{ ${members.join(", ")} }`;
+        });
+        request.push(`${indent}value.${name} = validateGroup(request.${name}, [\n`
+            + specs.map((spec) => `${indent}${INDENT}${spec},\n`).join("")
+            + `${indent}], ${JSON.stringify(name)}, errors, ${caseInsensitive});`);
+    }
+    if (method.authorization !== null) {
+        const validate = validatorFor(method.authorization.type, context);
+        request.push(
+            `${indent}${validate}(request.authorization, "authorization", errors);`,
+            `${indent}value.authorization = request.authorization;`,
+        );
+    }
+    if (method.body !== null) {
+        const validate = validatorFor(method.body.type, context);
+        request.push(
+            `${indent}${validate}(request.body, "body", errors);`,
+            `${indent}value.body = request.body;`,
+        );
+    }
+    request.push(`${indent}return { errors: errors, value: value };`);
+
+    const cases = method.responses.map(({ body, status }) => {
+        const validate = validatorFor(body === null ? { undefined: true } : body, context);
+        return `${indent}${INDENT}case ${status}:\n`
+            + `${indent}${INDENT}${INDENT}${validate}(body, "body", errors);\n`
+            + `${indent}${INDENT}${INDENT}break;\n`;
+    });
+    const undeclared = `{ message: "undeclared status code " + status, path: "status" }`;
+    const response = method.responses.length === 0
+        ? [`${indent}return [];`]
+        : [
+            `${indent}var errors = [];`,
+            `${indent}switch (status) {\n${cases.join("")}`
+            + `${indent}${INDENT}default:\n`
+            + `${indent}${INDENT}${INDENT}errors.push(${undeclared});\n`
+            + `${indent}}`,
+            `${indent}return errors;`,
+        ];
+
+    const entryIndent = INDENT + INDENT;
+    return `${entryIndent}${JSON.stringify(methodName)}: {\n`
+        + `${entryIndent}${INDENT}method: ${JSON.stringify(method.method)},\n`
+        + `${entryIndent}${INDENT}route: ${JSON.stringify(routePath)},\n`
+        + `${entryIndent}${INDENT}validateRequest: function (request) {\n${request.join("\n")}\n`
+        + `${entryIndent}${INDENT}},\n`
+        + `${entryIndent}${INDENT}validateResponse: function (status, body) {\n${response.join("\n")}\n`
+        + `${entryIndent}${INDENT}}\n`
+        + `${entryIndent}}`;
+}
+
+/**
+ * Get the name of the function validating a type, generating it if needed. Named types get one function
+ * each, which is also used to validate recursive references.
+ */
+function validatorFor(type: Type, context: IValidatorContext): string {
+    if ("reference" in type) {
+        // the referenced type encloses the reference, so its function is registered already
+        return context.named[type.reference];
+    }
+    const name = "name" in type && !isDateType(type) ? type.name : null;
+    if (name === null) {
+        const unnamedBody = printValidatorBody(type, context).map((line) => INDENT + line + "\n").join("");
+        if (context.unnamed[unnamedBody] === undefined) {
+            const unnamedName = `validate_${context.functions.length}`;
+            context.unnamed[unnamedBody] = unnamedName;
+            context.functions.push(`function ${unnamedName}(value, path, errors) {\n${unnamedBody}}\n`);
+        }
+        return context.unnamed[unnamedBody];
+    }
+    if (context.named[name] !== undefined) {
+        return context.named[name];
+    }
+    // register the function before generating its body, so recursive references find it
+    const taken = Object.keys(context.named).map((key) => context.named[key]);
+    const functionName = typeIdentifier(`validate_${name}`, taken);
+    context.named[name] = functionName;
+    const index = context.functions.length;
+    context.functions.push("");
+    const body = printValidatorBody(type, context).map((line) => INDENT + line + "\n").join("");
+    context.functions[index] = `function ${functionName}(value, path, errors) {\n${body}}\n`;
+    return functionName;
+}
+
+function printValidatorBody(type: Type, context: IValidatorContext): string[] {
+    const fail = (expected: string) =>
+        `errors.push({ message: ${JSON.stringify("expected " + expected)}, path: path });`;
+    if ("numbers" in type || "strings" in type || "booleans" in type || "enumValues" in type) {
+        const check = printPrimitiveCheck(type);
+        return [`if (!(${check})) {`, INDENT + fail(describeType(type)), "}"];
+    }
+    if ("null" in type) {
+        return ["if (value !== null) {", INDENT + fail("null"), "}"];
+    }
+    if ("undefined" in type) {
+        return ["if (value !== undefined) {", INDENT + fail("no value"), "}"];
+    }
+    if ("arrayMembers" in type) {
+        const member = validatorFor(type.arrayMembers, context);
+        return [
+            "if (!Array.isArray(value)) {",
+            INDENT + fail("array"),
+            INDENT + "return;",
+            "}",
+            "for (var i = 0; i < value.length; i++) {",
+            `${INDENT}${member}(value[i], joinPath(path, i), errors);`,
+            "}",
+        ];
+    }
+    if ("tupleMembers" in type) {
+        const length = type.tupleMembers.length;
+        return [
+            `if (!Array.isArray(value) || value.length !== ${length}) {`,
+            INDENT + fail(`array with ${length} elements`),
+            INDENT + "return;",
+            "}",
+            ...type.tupleMembers.map((member, index) =>
+                `${validatorFor(member, context)}(value[${index}], joinPath(path, ${index}), errors);`),
+        ];
+    }
+    if ("objectMembers" in type && isDateType(type)) {
+        return [
+            "if (typeof value !== \"string\" || isNaN(Date.parse(value))) {",
+            INDENT + fail("date string"),
+            "}",
+        ];
+    }
+    if ("objectMembers" in type || "dictionaryValue" in type) {
+        const members = "objectMembers" in type ? type.objectMembers : type.dictionaryMembers;
+        const lines = [
+            "if (!isObject(value)) {",
+            INDENT + fail("object"),
+            INDENT + "return;",
+            "}",
+        ];
+        for (const key of Object.keys(members)) {
+            const [memberType, optional] = stripUndefined(members[key]);
+            const member = validatorFor(memberType, context);
+            const access = `value[${JSON.stringify(key)}]`;
+            const memberPath = `joinPath(path, ${JSON.stringify(key)})`;
+            if (optional) {
+                lines.push(
+                    `if (${access} !== undefined) {`,
+                    `${INDENT}${member}(${access}, ${memberPath}, errors);`,
+                    "}",
+                );
+            } else {
+                lines.push(
+                    `if (${access} === undefined) {`,
+                    `${INDENT}errors.push({ message: "is required", path: ${memberPath} });`,
+                    "} else {",
+                    `${INDENT}${member}(${access}, ${memberPath}, errors);`,
+                    "}",
+                );
+            }
+        }
+        if ("dictionaryValue" in type) {
+            const fixed = JSON.stringify(Object.keys(members));
+            const value = validatorFor(type.dictionaryValue, context);
+            lines.push(
+                "for (var key in value) {",
+                `${INDENT}if (Object.prototype.hasOwnProperty.call(value, key) && ${fixed}.indexOf(key) < 0) {`,
+                `${INDENT}${INDENT}${value}(value[key], joinPath(path, key), errors);`,
+                `${INDENT}}`,
+                "}",
+            );
+        }
+        return lines;
+    }
+    if ("intersection" in type) {
+        return type.intersection.map((member) => `${validatorFor(member, context)}(value, path, errors);`);
+    }
+    if ("union" in type && type.union.length > 0 && type.union.every(isLiteralType)) {
+        const values = ([] as Array<string | number | boolean>).concat(...type.union.map(getLiterals));
+        return [`if (${JSON.stringify(values)}.indexOf(value) < 0) {`, INDENT + fail(describeType(type)), "}"];
+    }
+    if ("union" in type) {
+        const members = type.union.map((member) => validatorFor(member, context));
+        return [
+            `var validators = [${members.join(", ")}];`,
+            "for (var i = 0; i < validators.length; i++) {",
+            `${INDENT}var memberErrors = [];`,
+            `${INDENT}validators[i](value, path, memberErrors);`,
+            `${INDENT}if (memberErrors.length === 0) {`,
+            `${INDENT}${INDENT}return;`,
+            `${INDENT}}`,
+            "}",
+            fail(describeType(type)),
+        ];
+    }
+    return [];
+}
+
+function isLiteralType(type: Type): boolean {
+    return ("numbers" in type && type.numbers !== "all")
+        || ("booleans" in type && type.booleans !== "all")
+        || ("strings" in type && type.strings !== "all")
+        || "enumValues" in type;
+}
+
+function getLiterals(type: Type): Array<string | number | boolean> {
+    if ("numbers" in type && type.numbers !== "all") {
+        return type.numbers;
+    }
+    if ("booleans" in type && type.booleans !== "all") {
+        return type.booleans;
+    }
+    if ("strings" in type && type.strings !== "all") {
+        return type.strings;
+    }
+    if ("enumValues" in type) {
+        return Object.keys(type.enumValues).map((key) => type.enumValues[key]);
+    }
+    return [];
+}
+
+function printPrimitiveCheck(type: Type): string {
+    if (isLiteralType(type)) {
+        return `${JSON.stringify(getLiterals(type))}.indexOf(value) >= 0`;
+    }
+    if ("numbers" in type) {
+        return "typeof value === \"number\"";
+    }
+    if ("booleans" in type) {
+        return "typeof value === \"boolean\"";
+    }
+    return "typeof value === \"string\"";
+}
+
+/**
+ * A short description of a type for error messages. Literals are listed, so a message tells which values
+ * would have been valid.
+ */
+function describeType(type: Type): string {
+    if ("enumValues" in type) {
+        return Object.keys(type.enumValues).map((key) => JSON.stringify(type.enumValues[key])).join(" | ");
+    }
+    if ("numbers" in type || "strings" in type || "booleans" in type || "union" in type) {
+        const members = splitUnion(type);
+        if (members.length === 0) {
+            return "never";
+        }
+        if (members.length > 1 || "union" in type) {
+            return members.map(describeType).join(" | ");
+        }
+    }
+    if ("name" in type && type.name !== null) {
+        return isDateType(type) ? "date string" : type.name;
+    }
+    if ("numbers" in type) {
+        return type.numbers === "all" ? "number" : type.numbers.map((n) => JSON.stringify(n)).join(" | ");
+    }
+    if ("booleans" in type) {
+        return type.booleans === "all" ? "boolean" : type.booleans.map((b) => JSON.stringify(b)).join(" | ");
+    }
+    if ("strings" in type) {
+        return type.strings === "all" ? "string" : type.strings.map((s) => JSON.stringify(s)).join(" | ");
+    }
+    if ("null" in type) {
+        return "null";
+    }
+    if ("undefined" in type) {
+        return "no value";
+    }
+    if ("reference" in type) {
+        return type.reference;
+    }
+    if ("arrayMembers" in type || "tupleMembers" in type) {
+        return "array";
+    }
+    return "object";
+}
+
+function getCoercion(type: Type): ICoercion {
+    if ("arrayMembers" in type) {
+        return { ...getCoercion(type.arrayMembers), array: getCoercion(type.arrayMembers) };
+    }
+    const members = splitUnion(type);
+    return {
+        boolean: members.some((member) => "booleans" in member),
+        null: members.some((member) => "null" in member),
+        number: members.some((member) => "numbers" in member),
+    };
+}
@@ -0,0 +1,55 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { NO_ROUTER_FILTER } from "./filters";
+import { IWatchUpdate, watchRouters } from "./watch";
+
+const ROUTER = (name: string, type: string) => `
+import { ${type} } from "./types";
+
+/**
+ * #ExportRoute("/")
+ */
+export interface ${name} {
+    "/": {
+        "GET": {
+            response: {
+                200: ${type};
+            };
+        };
+    };
+}
+`;
+
+test("only routers depending on a changed file are parsed again", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "docroutes-"));
+    const write = (fileName: string, text: string) => fs.writeFileSync(path.join(directory, fileName), text);
+    write("types.ts", "export type IItem = { id: number };\nexport type IUser = { name: string };\n");
+    write("items.ts", ROUTER("IItemRoutes", "IItem"));
+    write("users.ts", ROUTER("IUserRoutes", "IUser"));
+    const updates: IWatchUpdate[] = [];
+    let notify: () => void = () => undefined;
+    const files = ["items.ts", "users.ts"].map((fileName) => path.join(directory, fileName));
+    const options = { customMethods: [], filter: NO_ROUTER_FILTER, inferParams: false, marker: "ExportRoute" };
+    const watch = watchRouters(files, {}, options, (update) => {
+        updates.push(update);
+        notify();
+    });
+    try {
+        expect(updates).toHaveLength(1);
+        expect(updates[0].changed).toEqual(["IItemRoutes", "IUserRoutes"]);
+
+        const next = new Promise<void>((resolve) => notify = resolve);
+        write("types.ts", "export type IItem = { id: string };\nexport type IUser = { name: string };\n");
+        await next;
+        expect(updates).toHaveLength(2);
+        expect(updates[1].changed).toEqual(["IItemRoutes"]);
+        expect(updates[1].routers.map((router) => router.name)).toEqual(["IItemRoutes", "IUserRoutes"]);
+    } finally {
+        watch.close();
+        for (const fileName of fs.readdirSync(directory)) {
+            fs.unlinkSync(path.join(directory, fileName));
+        }
+        fs.rmdirSync(directory);
+    }
+}, 20000);
@@ -0,0 +1,126 @@
+import * as ts from "typescript";
+import { IDiagnostic } from "./Diagnostics";
+import RoutesFrontend, { IFrontendOptions } from "./RoutesFrontend";
+import { findNameClashes } from "./schema";
+import { IExportedRouter } from "./types";
+
+export interface IWatchUpdate {
+    routers: IExportedRouter[];
+    // names of the routers added, changed or removed since the previous update (all routers at first)
+    changed: string[];
+    diagnostics: IDiagnostic[];
+}
+
+export interface IRoutersWatch {
+    // stop watching the files
+    close(): void;
+}
+
+// the routers of an input file and what they were parsed from
+interface IParsedFile {
+    routers: IExportedRouter[];
+    diagnostics: IDiagnostic[];
+    // the file itself and all files it imports, directly or transitively
+    dependencies: string[];
+}
+
+/**
+ * Parse the routers of the input files, and again whenever an input file or a file imported by it
+ * changes. Only the routers of input files depending on a changed file are parsed again, changes to
+ * other files (e.g. the outputs) do not cause an update.
+ */
+export function watchRouters(
+    files: string[],
+    options: ts.CompilerOptions,
+    frontendOptions: IFrontendOptions,
+    onUpdate: (update: IWatchUpdate) => void,
+): IRoutersWatch {
+    const parsed: { [fileName: string]: IParsedFile } = {};
+    let sourceFiles: { [fileName: string]: ts.SourceFile } = {};
+    // the watch program can not be stopped, so remember its watchers to close them ourselves
+    const watchers: ts.FileWatcher[] = [];
+    const system: ts.System = {
+        ...ts.sys,
+        watchDirectory: (directory, callback, recursive) => {
+            const watcher = ts.sys.watchDirectory!(directory, callback, recursive);
+            watchers.push(watcher);
+            return watcher;
+        },
+        watchFile: (fileName, callback, interval) => {
+            const watcher = ts.sys.watchFile!(fileName, callback, interval);
+            watchers.push(watcher);
+            return watcher;
+        },
+    };
+    // compiler errors are not our business, the routers are parsed regardless
+    const host = ts.createWatchCompilerHost(files, options, system, ts.createSemanticDiagnosticsBuilderProgram,
+        () => undefined, () => undefined);
+    host.afterProgramCreate = (builder) => {
+        const program = builder.getProgram();
+        const previousSourceFiles = sourceFiles;
+        sourceFiles = {};
+        for (const sourceFile of program.getSourceFiles()) {
+            sourceFiles[sourceFile.fileName] = sourceFile;
+        }
+        // unchanged files keep their source file in the new program
+        const changedFiles = Object.keys(sourceFiles)
+            .filter((fileName) => sourceFiles[fileName] !== previousSourceFiles[fileName])
+            .concat(Object.keys(previousSourceFiles).filter((fileName) => sourceFiles[fileName] === undefined));
+        const reparsed = files.filter((fileName) => parsed[fileName] === undefined
+            || parsed[fileName].dependencies.some((dependency) => changedFiles.includes(dependency)));
+        if (reparsed.length === 0) {
+            return;
+        }
+        const changed: string[] = [];
+        for (const fileName of reparsed) {
+            const previous = parsed[fileName];
+            const sourceFile = program.getSourceFile(fileName);
+            const current: IParsedFile = sourceFile !== undefined
+                ? parseFile(program, builder, sourceFile, frontendOptions)
+                : { dependencies: [fileName], diagnostics: [], routers: [] };
+            changed.push(...changedRouters(previous !== undefined ? previous.routers : [], current.routers));
+            parsed[fileName] = current;
+        }
+        const routers: IExportedRouter[] = [];
+        const diagnostics: IDiagnostic[] = [];
+        for (const fileName of files) {
+            routers.push(...parsed[fileName].routers);
+            diagnostics.push(...parsed[fileName].diagnostics);
+        }
+        diagnostics.push(...findNameClashes(routers));
+        onUpdate({ changed, diagnostics, routers });
+    };
+    ts.createWatchProgram(host);
+    return {
+        close: () => {
+            for (const watcher of watchers.splice(0)) {
+                watcher.close();
+            }
+        },
+    };
+}
+
+function parseFile(
+    program: ts.Program,
+    builder: ts.BuilderProgram,
+    sourceFile: ts.SourceFile,
+    frontendOptions: IFrontendOptions,
+): IParsedFile {
+    const frontend = new RoutesFrontend(program, frontendOptions);
+    const routers = frontend.processSourceFile(sourceFile);
+    const dependencies = builder.getAllDependencies(sourceFile).concat(sourceFile.fileName);
+    return { dependencies, diagnostics: frontend.diagnostics.all(), routers };
+}
+
+/**
+ * Get the names of the routers which differ between two versions of a file.
+ */
+function changedRouters(previous: IExportedRouter[], current: IExportedRouter[]): string[] {
+    const find = (routers: IExportedRouter[], name: string) => routers.find((router) => router.name === name);
+    const updated = current.filter((router) => {
+        const old = find(previous, router.name);
+        return old === undefined || JSON.stringify(old) !== JSON.stringify(router);
+    });
+    const removed = previous.filter((router) => find(current, router.name) === undefined);
+    return updated.concat(removed).map((router) => router.name);
+}